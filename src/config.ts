@@ -1,34 +1,197 @@
 import 'dotenv/config';
+import { homedir } from 'node:os';
+import { join } from 'node:path';
+import { parseArgs } from 'node:util';
 import { z } from 'zod';
+import { SYSTEM_TIME_ZONE, WeekDay, isValidTimeZone } from './utils/dates.js';
+import { parseClockTime } from './utils/schedule.js';
 
 const ConfigSchema = z.object({
-  apiKey: z.string().min(1, 'RIZE_API_KEY is required'),
+  apiKey: z.string(), // Chiave del profilo "default"; può essere vuota se RIZE_PROFILES è impostato
+  profiles: z.record(
+    z.string().regex(/^[\w-]+$/, 'Profile names may only contain letters, digits, "_" and "-"'),
+    z.string().min(1, 'Each RIZE_PROFILES entry needs an API key (name=key)')
+  ),
+  apiUrl: z.string().url().default('https://api.rize.io/api/v1/graphql'),
   logLevel: z.enum(['error', 'warn', 'info', 'debug']).default('info'),
   cacheConfig: z.object({
     maxSize: z.number().default(1000),
-    ttl: z.number().default(5 * 60 * 1000) // 5 minutes
+    ttl: z.number().default(5 * 60 * 1000), // 5 minutes
+    pastDataTtl: z.number().default(24 * 60 * 60 * 1000), // 24 hours
+    todayTtl: z.number().default(60 * 1000) // 1 minute
   }),
   rateLimiting: z.object({
     enabled: z.boolean().default(true),
     maxRequests: z.number().default(100),
-    windowMs: z.number().default(60 * 1000) // 1 minute
+    windowMs: z.number().default(60 * 1000), // 1 minute
+    queueTimeoutMs: z.number().min(0).default(30 * 1000) // 30 seconds
+  }),
+  resilience: z.object({
+    requestTimeoutMs: z.number().min(1).default(15 * 1000), // 15 seconds
+    retries: z.number().min(0).default(3),
+    retryBaseDelayMs: z.number().min(0).default(500),
+    retryMaxDelayMs: z.number().min(0).default(8 * 1000),
+    circuitBreakerThreshold: z.number().min(1).default(5),
+    circuitBreakerResetMs: z.number().min(0).default(30 * 1000) // 30 seconds
+  }),
+  analytics: z.object({
+    dailyFocusTarget: z.number().min(1).default(120), // minutes
+    scoreWeights: z.object({ // Peso di ogni tipo di tempo tracciato nel punteggio di produttività
+      focus: z.number().min(-1).max(1).default(1),
+      meeting: z.number().min(-1).max(1).default(0),
+      break: z.number().min(-1).max(1).default(0),
+      idle: z.number().min(-1).max(1).default(0)
+    })
+  }),
+  calendar: z.object({
+    timeZone: z.string().refine(isValidTimeZone, 'Invalid TIMEZONE. Use an IANA time zone like Europe/Rome'), // Definisce "oggi" e i confini dei giorni
+    weekStartsOn: z.number({ required_error: 'Invalid WEEK_START. Use a day name like monday' }).int().min(0).max(6).transform(day => day as WeekDay), // 0 = domenica
+    workingDays: z.array(
+      z.number({ invalid_type_error: 'Invalid WORKING_DAYS. Use day names like monday,tuesday' }).int().min(0).max(6).transform(day => day as WeekDay)
+    ).min(1, 'WORKING_DAYS needs at least one day'),
+    workingHours: z.object(
+      { start: z.number(), end: z.number() },
+      { required_error: 'Invalid WORKING_HOURS. Use HH:MM-HH:MM like 09:00-17:00' }
+    ).refine(hours => hours.start < hours.end, 'WORKING_HOURS must end after it starts'), // Minuti dalla mezzanotte
+    holidaysFile: z.string().min(1).optional() // File iCalendar delle festività, letto all'avvio
+  }),
+  insights: z.object({
+    focusChange: z.number().positive().default(0.2),
+    meetingHeavyMinutes: z.number().min(1).default(240),
+    deepWorkMinutes: z.number().min(1).default(180),
+    streakDays: z.number().min(2).default(3),
+    lateNightHour: z.number().min(0).max(23).default(22)
+  }),
+  history: z.object({
+    directory: z.string().min(1).optional(), // Se assente lo storico su disco è disattivato
+    settleDays: z.number().int().min(0).default(3) // Giorni recenti letti sempre dall'API, mai salvati
+  }),
+  export: z.object({
+    directory: z.string().min(1).optional() // Se assente export_report restituisce solo risorse incorporate
+  }),
+  goals: z.object({
+    directory: z.string().min(1).optional() // goals.json del profilo di default; i profili con nome usano sottodirectory. Assente con GOALS_DIR=off
+  }),
+  transport: z.object({
+    type: z.enum(['stdio', 'http']).default('stdio'),
+    host: z.string().min(1).default('127.0.0.1'),
+    port: z.number().int().min(0).max(65535).default(3000),
+    authToken: z.string().min(1).optional(), // Bearer token richiesto sulle route MCP HTTP
+    sessionIdleMinutes: z.number().int().min(1).default(30) // Sessioni HTTP inattive chiuse dopo questo tempo
   })
 });
 
 export type Config = z.infer<typeof ConfigSchema>;
 
-export function loadConfig(): Config {
+// RIZE_PROFILES="alice=key1,bob=key2": un profilo con nome per ogni account Rize
+function parseProfiles(value: string = ''): Record<string, string> {
+  const profiles: Record<string, string> = {};
+  value.split(',').map(entry => entry.trim()).filter(Boolean).forEach(entry => {
+    const separator = entry.indexOf('=');
+    const name = separator === -1 ? entry : entry.slice(0, separator).trim();
+    profiles[name] = separator === -1 ? '' : entry.slice(separator + 1).trim();
+  });
+  return profiles;
+}
+
+const WEEK_DAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+// WEEK_START="monday" -> 1; i nomi sconosciuti vengono lasciati allo schema, che li rifiuta
+function parseWeekDay(value: string): number | undefined {
+  const index = WEEK_DAYS.indexOf(value.trim().toLowerCase());
+  return index === -1 ? undefined : index;
+}
+
+// WORKING_DAYS="monday,tuesday" -> [1, 2]; i nomi sconosciuti diventano NaN così lo schema li rifiuta
+function parseWeekDays(value: string): number[] {
+  return value.split(',').map(day => day.trim()).filter(Boolean).map(day => parseWeekDay(day) ?? NaN);
+}
+
+// WORKING_HOURS="09:00-17:00" -> { start: 540, end: 1020 }; undefined se uno dei due orari non è valido
+function parseWorkingHours(value: string): { start: number; end: number } | undefined {
+  const [start, end] = value.split('-').map(time => parseClockTime(time));
+  return start !== undefined && end !== undefined ? { start, end } : undefined;
+}
+
+// I flag da riga di comando hanno la precedenza sulle variabili d'ambiente corrispondenti
+function parseCliFlags(argv: string[]): { transport?: string; host?: string; port?: string } {
+  const { values } = parseArgs({
+    args: argv,
+    options: {
+      transport: { type: 'string' },
+      host: { type: 'string' },
+      port: { type: 'string' }
+    }
+  });
+  return values;
+}
+
+export function loadConfig(argv: string[] = process.argv.slice(2)): Config {
+  const flags = parseCliFlags(argv);
   const config = {
     apiKey: process.env.RIZE_API_KEY || '',
+    profiles: parseProfiles(process.env.RIZE_PROFILES),
+    apiUrl: process.env.RIZE_API_URL || 'https://api.rize.io/api/v1/graphql',
     logLevel: process.env.LOG_LEVEL || 'info',
     cacheConfig: {
       maxSize: parseInt(process.env.CACHE_MAX_SIZE || '1000'),
-      ttl: parseInt(process.env.CACHE_TTL || '300000')
+      ttl: parseInt(process.env.CACHE_TTL || '300000'),
+      pastDataTtl: parseInt(process.env.CACHE_TTL_PAST || '86400000'),
+      todayTtl: parseInt(process.env.CACHE_TTL_TODAY || '60000')
     },
     rateLimiting: {
       enabled: process.env.RATE_LIMITING !== 'false',
       maxRequests: parseInt(process.env.RATE_LIMIT_MAX || '100'),
-      windowMs: parseInt(process.env.RATE_LIMIT_WINDOW || '60000')
+      windowMs: parseInt(process.env.RATE_LIMIT_WINDOW || '60000'),
+      queueTimeoutMs: parseInt(process.env.RATE_LIMIT_QUEUE_TIMEOUT || '30000')
+    },
+    resilience: {
+      requestTimeoutMs: parseInt(process.env.REQUEST_TIMEOUT || '15000'),
+      retries: parseInt(process.env.RETRY_MAX || '3'),
+      retryBaseDelayMs: parseInt(process.env.RETRY_BASE_DELAY || '500'),
+      retryMaxDelayMs: parseInt(process.env.RETRY_MAX_DELAY || '8000'),
+      circuitBreakerThreshold: parseInt(process.env.CIRCUIT_BREAKER_THRESHOLD || '5'),
+      circuitBreakerResetMs: parseInt(process.env.CIRCUIT_BREAKER_RESET || '30000')
+    },
+    analytics: {
+      dailyFocusTarget: parseInt(process.env.DAILY_FOCUS_TARGET || '120'),
+      scoreWeights: {
+        focus: parseFloat(process.env.SCORE_WEIGHT_FOCUS || '1'),
+        meeting: parseFloat(process.env.SCORE_WEIGHT_MEETING || '0'),
+        break: parseFloat(process.env.SCORE_WEIGHT_BREAK || '0'),
+        idle: parseFloat(process.env.SCORE_WEIGHT_IDLE || '0')
+      }
+    },
+    calendar: {
+      timeZone: process.env.TIMEZONE || SYSTEM_TIME_ZONE,
+      weekStartsOn: parseWeekDay(process.env.WEEK_START || 'sunday'),
+      workingDays: parseWeekDays(process.env.WORKING_DAYS || 'monday,tuesday,wednesday,thursday,friday'),
+      workingHours: parseWorkingHours(process.env.WORKING_HOURS || '09:00-17:00'),
+      holidaysFile: process.env.HOLIDAYS_FILE || undefined
+    },
+    insights: {
+      focusChange: parseFloat(process.env.INSIGHT_FOCUS_CHANGE || '0.2'),
+      meetingHeavyMinutes: parseInt(process.env.INSIGHT_MEETING_HEAVY_MINUTES || '240'),
+      deepWorkMinutes: parseInt(process.env.INSIGHT_DEEP_WORK_MINUTES || '180'),
+      streakDays: parseInt(process.env.INSIGHT_STREAK_DAYS || '3'),
+      lateNightHour: parseInt(process.env.INSIGHT_LATE_NIGHT_HOUR || '22')
+    },
+    history: {
+      directory: process.env.HISTORY_DIR || undefined,
+      settleDays: parseInt(process.env.HISTORY_SETTLE_DAYS || '3')
+    },
+    export: {
+      directory: process.env.EXPORT_DIR || undefined
+    },
+    goals: {
+      directory: process.env.GOALS_DIR === 'off' ? undefined : process.env.GOALS_DIR || join(homedir(), '.rizeio-mcp', 'goals')
+    },
+    transport: {
+      type: flags.transport || process.env.MCP_TRANSPORT || 'stdio',
+      host: flags.host || process.env.MCP_HTTP_HOST || '127.0.0.1',
+      port: parseInt(flags.port || process.env.MCP_HTTP_PORT || '3000'),
+      authToken: process.env.MCP_AUTH_TOKEN || undefined,
+      sessionIdleMinutes: parseInt(process.env.MCP_SESSION_IDLE_MINUTES || '30')
     }
   };
 
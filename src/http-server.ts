@@ -0,0 +1,269 @@
+import { createServer as createHttpServer, IncomingMessage, Server, ServerResponse } from 'node:http';
+import { randomUUID, timingSafeEqual } from 'node:crypto';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { Logger } from 'winston';
+import { HealthReport, RizeMcpServer } from './server.js';
+
+// Credenziali Rize per sessione, inviate come header all'apertura della sessione
+export interface SessionCredentials {
+  apiKey?: string; // X-Rize-Api-Key: la sessione usa un proprio account Rize
+  profile?: string; // X-Rize-Profile: la sessione è legata a un profilo configurato
+}
+
+export interface HttpServerOptions {
+  host: string;
+  port: number;
+  authToken?: string; // Se impostato, ogni route MCP richiede "Authorization: Bearer <token>"
+  sessionIdleTimeoutMs?: number; // Sessioni Streamable HTTP senza richieste da più di così vengono chiuse
+  createServer: (credentials: SessionCredentials) => RizeMcpServer;
+  checkHealth: () => Promise<HealthReport>;
+  logger: Logger;
+}
+
+// Streamable HTTP è servito su /mcp; /sse + /messages è il vecchio trasporto HTTP+SSE per i client meno recenti
+const MCP_PATH = '/mcp';
+const SSE_PATH = '/sse';
+const SSE_MESSAGES_PATH = '/messages';
+const HEALTH_PATH = '/healthz';
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+const DEFAULT_SESSION_IDLE_TIMEOUT_MS = 30 * 60 * 1000;
+const SESSION_SWEEP_INTERVAL_MS = 60 * 1000;
+// /healthz non richiede il token: il report viene riusato per qualche secondo, così chiamate frequenti
+// non diventano ognuna una richiesta all'API di Rize
+const HEALTH_CACHE_MS = 5 * 1000;
+
+interface Session {
+  transport: any;
+  server: RizeMcpServer;
+  lastSeen: number; // Fine dell'ultima richiesta
+  openRequests: number; // Richieste ancora aperte, es. lo stream GET delle notifiche
+}
+
+class HttpError extends Error {
+  constructor(public status: number, message: string, public code: number = -32000) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+export async function startHttpServer(options: HttpServerOptions): Promise<Server> {
+  const { logger } = options;
+  const sessions = new Map<string, Session>();
+  const sseSessions = new Map<string, Session>();
+  const idleTimeoutMs = options.sessionIdleTimeoutMs ?? DEFAULT_SESSION_IDLE_TIMEOUT_MS;
+  let health: { report: Promise<HealthReport>; expiresAt: number } | undefined;
+
+  function currentHealth(): Promise<HealthReport> {
+    if (!health || health.expiresAt <= Date.now()) {
+      health = { report: options.checkHealth(), expiresAt: Date.now() + HEALTH_CACHE_MS };
+    }
+    return health.report;
+  }
+
+  // Un client Streamable HTTP può sparire senza mandare DELETE: le sessioni senza richieste aperte da più
+  // di idleTimeoutMs vengono chiuse. Le sessioni SSE no, perché si chiudono con la loro connessione.
+  function closeIdleSessions(): void {
+    const cutoff = Date.now() - idleTimeoutMs;
+    sessions.forEach((session, sessionId) => {
+      if (session.openRequests > 0 || session.lastSeen > cutoff) return;
+      logger.info('HTTP session expired', { sessionId, transport: 'streamable-http' });
+      session.transport.close().catch((error: Error) => {
+        logger.warn('Failed to close expired HTTP session', { sessionId, error: error.message });
+      });
+      sessions.delete(sessionId);
+    });
+  }
+
+  function createSessionServer(req: IncomingMessage): RizeMcpServer {
+    try {
+      return options.createServer(readCredentials(req));
+    } catch (error) {
+      // es. un X-Rize-Profile sconosciuto
+      throw new HttpError(400, (error as Error).message);
+    }
+  }
+
+  async function handleStreamable(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const body = req.method === 'POST' ? await readJsonBody(req) : undefined;
+    const sessionId = req.headers['mcp-session-id'];
+
+    if (typeof sessionId === 'string') {
+      const session = sessions.get(sessionId);
+      if (!session) {
+        // 404 dice al client che la sessione è scaduta e deve inizializzarne una nuova
+        throw new HttpError(404, `Session ${sessionId} not found`, -32001);
+      }
+      session.openRequests++;
+      res.on('close', () => {
+        session.openRequests--;
+        session.lastSeen = Date.now();
+      });
+      await session.transport.handleRequest(req, res, body);
+      return;
+    }
+
+    if (req.method !== 'POST' || !isInitializeRequest(body)) {
+      throw new HttpError(400, 'Bad Request: missing Mcp-Session-Id header or initialize request');
+    }
+
+    const server = createSessionServer(req);
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (id: string) => {
+        sessions.set(id, { transport, server, lastSeen: Date.now(), openRequests: 0 });
+        logger.info('HTTP session opened', { sessionId: id, transport: 'streamable-http' });
+      }
+    });
+    transport.onclose = () => {
+      if (transport.sessionId && sessions.delete(transport.sessionId)) {
+        logger.info('HTTP session closed', { sessionId: transport.sessionId, transport: 'streamable-http' });
+      }
+    };
+    await server.connect(transport);
+    await transport.handleRequest(req, res, body);
+  }
+
+  async function handleSseStream(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    if (req.method !== 'GET') {
+      throw new HttpError(405, 'Method not allowed');
+    }
+    const server = createSessionServer(req);
+    const transport = new SSEServerTransport(SSE_MESSAGES_PATH, res);
+    const sessionId: string = transport.sessionId;
+    sseSessions.set(sessionId, { transport, server, lastSeen: Date.now(), openRequests: 1 });
+    logger.info('HTTP session opened', { sessionId, transport: 'sse' });
+    res.on('close', () => {
+      sseSessions.delete(sessionId);
+      logger.info('HTTP session closed', { sessionId, transport: 'sse' });
+    });
+    await server.connect(transport);
+  }
+
+  async function handleSseMessage(req: IncomingMessage, res: ServerResponse, url: URL): Promise<void> {
+    if (req.method !== 'POST') {
+      throw new HttpError(405, 'Method not allowed');
+    }
+    const sessionId = url.searchParams.get('sessionId') ?? '';
+    const session = sseSessions.get(sessionId);
+    if (!session) {
+      throw new HttpError(404, `Session ${sessionId} not found`, -32001);
+    }
+    const body = await readJsonBody(req);
+    await session.transport.handlePostMessage(req, res, body);
+  }
+
+  async function handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+
+    if (url.pathname === HEALTH_PATH) {
+      if (req.method !== 'GET') {
+        throw new HttpError(405, 'Method not allowed');
+      }
+      const report = await currentHealth();
+      sendJson(res, report.status === 'healthy' ? 200 : 503, {
+        ...report,
+        sessions: { streamableHttp: sessions.size, sse: sseSessions.size }
+      });
+      return;
+    }
+
+    if (url.pathname !== MCP_PATH && url.pathname !== SSE_PATH && url.pathname !== SSE_MESSAGES_PATH) {
+      throw new HttpError(404, 'Not found');
+    }
+    if (!isAuthorized(req, options.authToken)) {
+      res.setHeader('WWW-Authenticate', 'Bearer realm="rize-mcp-server"');
+      throw new HttpError(401, 'Unauthorized: missing or invalid bearer token');
+    }
+
+    if (url.pathname === MCP_PATH) {
+      await handleStreamable(req, res);
+    } else if (url.pathname === SSE_PATH) {
+      await handleSseStream(req, res);
+    } else {
+      await handleSseMessage(req, res, url);
+    }
+  }
+
+  const httpServer = createHttpServer((req, res) => {
+    handle(req, res).catch(error => {
+      const status = error instanceof HttpError ? error.status : 500;
+      if (status === 500) {
+        logger.error('HTTP request failed', { error: (error as Error).message, method: req.method, url: req.url });
+      }
+      if (res.headersSent) {
+        res.end();
+        return;
+      }
+      sendJson(res, status, {
+        jsonrpc: '2.0',
+        error: {
+          code: error instanceof HttpError ? error.code : -32603,
+          message: status === 500 ? 'Internal server error' : (error as Error).message
+        },
+        id: null
+      });
+    });
+  });
+
+  if (!options.authToken && !isLoopback(options.host)) {
+    logger.warn('HTTP transport is listening on a non-loopback address without MCP_AUTH_TOKEN; anyone who can reach it can use your Rize account', { host: options.host });
+  }
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(options.port, options.host, () => {
+      httpServer.off('error', reject);
+      resolve();
+    });
+  });
+
+  const sweep = setInterval(closeIdleSessions, Math.min(SESSION_SWEEP_INTERVAL_MS, idleTimeoutMs));
+  sweep.unref();
+  httpServer.on('close', () => clearInterval(sweep));
+  return httpServer;
+}
+
+function isAuthorized(req: IncomingMessage, authToken?: string): boolean {
+  if (!authToken) return true;
+  const match = /^Bearer\s+(.+)$/i.exec(req.headers.authorization ?? '');
+  if (!match) return false;
+  const given = Buffer.from(match[1].trim());
+  const expected = Buffer.from(authToken);
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
+
+function readCredentials(req: IncomingMessage): SessionCredentials {
+  const header = (name: string): string | undefined => {
+    const value = req.headers[name];
+    return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+  };
+  return { apiKey: header('x-rize-api-key'), profile: header('x-rize-profile') };
+}
+
+function isLoopback(host: string): boolean {
+  return host === 'localhost' || host === '::1' || host.startsWith('127.');
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      throw new HttpError(413, 'Request body too large');
+    }
+    chunks.push(chunk as Buffer);
+  }
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+  } catch {
+    throw new HttpError(400, 'Parse error: request body is not valid JSON', -32700);
+  }
+}
+
+function sendJson(res: ServerResponse, status: number, payload: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(payload));
+}
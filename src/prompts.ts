@@ -0,0 +1,187 @@
+import { z } from 'zod';
+import { format, parseISO } from 'date-fns';
+import { RizeApiService } from './services/rize-api.js';
+import { resolveDateExpression, resolveDay } from './utils/validation.js';
+import { buildCategoryBreakdown, percentChange, summarizePeriod } from './utils/analytics.js';
+import { DateBounds, getComparisonPeriods, monthBounds, previousMonthBounds, shiftDays, today, weekBounds } from './utils/dates.js';
+import { clockTime, nextWorkingDay, previousWorkingDay } from './utils/schedule.js';
+import { formatCategoryShares, formatDate, formatDuration, formatFocusSessions, formatProductivityMetrics } from './utils/formatting.js';
+import { RizeAnalyticsPeriod, RizeFocusSession, RizeProductivityMetrics } from './types/rize.js';
+import type { RizeMcpServer } from './server.js';
+
+// Istruzione finale comune, così ogni report si attiene ai dati forniti
+const GROUNDING = 'Only use the Rize data below. If something is not in the data, say so instead of guessing.';
+
+function userPrompt(text: string) {
+  return {
+    messages: [{
+      role: 'user',
+      content: { type: 'text', text }
+    }]
+  };
+}
+
+function metricsOf(metrics: RizeProductivityMetrics[], date: string): RizeProductivityMetrics[] {
+  return metrics.filter(metric => metric.date.slice(0, 10) === date);
+}
+
+function sessionsOf(sessions: RizeFocusSession[], date: string, timeZone: string): RizeFocusSession[] {
+  return sessions.filter(session => formatDate(session.startTime, timeZone) === date);
+}
+
+function formatPeriodComparison(current: RizeAnalyticsPeriod, previous: RizeAnalyticsPeriod): string {
+  const change = percentChange(current.totalFocusTime, previous.totalFocusTime);
+  let formatted = `• This period (${current.startDate} → ${current.endDate}): ${formatDuration(current.totalFocusTime)} focus, ${current.activeDays} active days, ${current.averageProductivityScore.toFixed(1)}/100 avg score\n`;
+  formatted += `• Previous (${previous.startDate} → ${previous.endDate}): ${formatDuration(previous.totalFocusTime)} focus, ${previous.activeDays} active days, ${previous.averageProductivityScore.toFixed(1)}/100 avg score\n`;
+  formatted += `• Per working day: ${formatDuration(Math.round(current.averageFocusPerWorkingDay))} this period (${current.workingDays} working days), ${formatDuration(Math.round(previous.averageFocusPerWorkingDay))} previous (${previous.workingDays})\n`;
+  formatted += `• Focus change: ${change === null ? 'n/a (no focus in previous period)' : `${change > 0 ? '+' : ''}${(change * 100).toFixed(1)}%`}\n`;
+  return formatted;
+}
+
+async function activeProjectNames(rizeApi: RizeApiService): Promise<string> {
+  const { projects } = await rizeApi.getAllProjects();
+  const names = projects.filter(project => !project.isArchived).map(project => project.name);
+  return names.length > 0 ? names.map(name => `• ${name}`).join('\n') + '\n' : 'No active projects.\n';
+}
+
+// Prompt di report: ognuno scarica in anticipo i dati Rize che servono e li include in un unico messaggio
+// utente con una struttura di output fissa, così il modello produce ogni volta un report della stessa forma.
+export function registerPrompts(server: RizeMcpServer, rizeApi: RizeApiService): void {
+  server.registerPrompt(
+    'daily_standup',
+    {
+      title: 'Daily standup',
+      description: 'Standup update from the previous workday\'s Rize data and today so far',
+      argsSchema: {
+        date: z.string().optional().describe('Standup day (YYYY-MM-DD, today or yesterday; default: today)')
+      }
+    },
+    async ({ date }: { date?: string }): Promise<any> => {
+      const day = date ? resolveDay(date, rizeApi.calendar).startDate : today(rizeApi.timeZone);
+      const isToday = day === today(rizeApi.timeZone);
+      const previous = previousWorkingDay(day, rizeApi.schedule);
+      const sessions = await rizeApi.getFocusSessions(previous, day);
+      const metrics = await rizeApi.getSummaries(previous, day, { sessions });
+
+      let text = `Prepare my daily standup for ${day}. ${GROUNDING}\n\n`;
+      text += `Structure the answer as:\n`;
+      text += `1. **Yesterday** (${previous}): what I worked on, based on sessions and focus time\n`;
+      text += isToday ?
+        `2. **Today**: what I have done so far and what is likely next\n` :
+        `2. **${day}**: what I worked on that day and what was likely next\n`;
+      text += `3. **Blockers / risks**: e.g. meeting-heavy days, little focus time, late sessions\n`;
+      text += `Keep it under 150 words, in bullet points.\n\n`;
+      text += `## ${previous}\n${formatProductivityMetrics(metricsOf(metrics, previous), rizeApi.schedule)}\n`;
+      text += `${formatFocusSessions(sessionsOf(sessions, previous, rizeApi.timeZone), rizeApi.timeZone)}\n`;
+      text += `## ${day}${isToday ? ' so far' : ''}\n${formatProductivityMetrics(metricsOf(metrics, day), rizeApi.schedule)}\n`;
+      text += `${formatFocusSessions(sessionsOf(sessions, day, rizeApi.timeZone), rizeApi.timeZone)}\n`;
+      return userPrompt(text);
+    }
+  );
+
+  server.registerPrompt(
+    'weekly_review',
+    {
+      title: 'Weekly review',
+      description: 'Review of one week against the previous one: focus, categories, sessions and projects',
+      argsSchema: {
+        weekStart: z.string().optional().describe('First day of the week, or a week like last_week or 2025-W36 (default: the current week)')
+      }
+    },
+    async ({ weekStart }: { weekStart?: string }): Promise<any> => {
+      let current: DateBounds;
+      let previous: DateBounds;
+      if (weekStart) {
+        const start = resolveDateExpression(weekStart, rizeApi.calendar).startDate;
+        current = weekBounds(start, rizeApi.timeZone);
+        // Una settimana in corso è tagliata a oggi: va confrontata con gli stessi giorni della settimana prima
+        previous = { startDate: shiftDays(current.startDate, -7), endDate: shiftDays(current.endDate, -7) };
+      } else {
+        ({ current, previous } = getComparisonPeriods('week', rizeApi.calendar));
+      }
+      const sessions = await rizeApi.getFocusSessions(current.startDate, current.endDate);
+      const metrics = await rizeApi.getSummaries(current.startDate, current.endDate, { sessions });
+      const previousMetrics = await rizeApi.getSummaries(previous.startDate, previous.endDate, { countSessions: false });
+      const breakdown = buildCategoryBreakdown(current.startDate, current.endDate, metrics);
+
+      let text = `Write my weekly review for ${current.startDate} → ${current.endDate}. ${GROUNDING}\n\n`;
+      text += `Structure the answer as:\n`;
+      text += `1. **Headline**: one sentence on how the week went compared to the previous one\n`;
+      text += `2. **Where the time went**: main categories and projects\n`;
+      text += `3. **Wins**: best focus days and longest sessions\n`;
+      text += `4. **Watch-outs**: meeting load, fragmented days, late sessions\n`;
+      text += `5. **Next week**: up to 3 concrete adjustments\n\n`;
+      text += `## Comparison\n${formatPeriodComparison(summarizePeriod(current, metrics, rizeApi.schedule), summarizePeriod(previous, previousMetrics, rizeApi.schedule))}\n`;
+      text += `## Categories\n${breakdown.categories.length > 0 ? formatCategoryShares(breakdown.categories) : 'No category data.\n'}\n`;
+      text += `## Daily metrics\n${formatProductivityMetrics(metrics, rizeApi.schedule)}\n`;
+      text += `## Sessions\n${formatFocusSessions(sessions, rizeApi.timeZone)}\n`;
+      text += `## Active projects\n${await activeProjectNames(rizeApi)}`;
+      return userPrompt(text);
+    }
+  );
+
+  server.registerPrompt(
+    'monthly_retro',
+    {
+      title: 'Monthly retrospective',
+      description: 'Retrospective of one month against the previous one, by focus, categories and consistency',
+      argsSchema: {
+        month: z.string().optional().describe('Month to review (YYYY-MM, this_month or last_month; default: the previous month)')
+      }
+    },
+    async ({ month }: { month?: string }): Promise<any> => {
+      const monthStart = parseISO(`${resolveDateExpression(month ?? 'last_month', rizeApi.calendar).startDate.slice(0, 7)}-01`);
+      const current: DateBounds = monthBounds(format(monthStart, 'yyyy-MM'), rizeApi.timeZone);
+      const previous: DateBounds = previousMonthBounds(current);
+      const metrics = await rizeApi.getSummaries(current.startDate, current.endDate);
+      const previousMetrics = await rizeApi.getSummaries(previous.startDate, previous.endDate, { countSessions: false });
+      const breakdown = buildCategoryBreakdown(current.startDate, current.endDate, metrics);
+
+      let text = `Run a retrospective of ${format(monthStart, 'MMMM yyyy')}. ${GROUNDING}\n\n`;
+      text += `Structure the answer as:\n`;
+      text += `1. **Summary**: the month in three bullet points, with the focus change vs the previous month\n`;
+      text += `2. **What went well**\n`;
+      text += `3. **What didn't**\n`;
+      text += `4. **Patterns**: weekdays, category mix, consistency of focus time\n`;
+      text += `5. **Experiments for next month**: up to 3, each with a measurable target\n\n`;
+      text += `## Comparison\n${formatPeriodComparison(summarizePeriod(current, metrics, rizeApi.schedule), summarizePeriod(previous, previousMetrics, rizeApi.schedule))}\n`;
+      text += `## Categories\n${breakdown.categories.length > 0 ? formatCategoryShares(breakdown.categories) : 'No category data.\n'}\n`;
+      text += `## Daily metrics\n${formatProductivityMetrics(metrics, rizeApi.schedule)}`;
+      return userPrompt(text);
+    }
+  );
+
+  server.registerPrompt(
+    'plan_tomorrow',
+    {
+      title: 'Plan tomorrow',
+      description: 'Plan for the next working day from today\'s Rize data, the last 7 days and the active projects',
+      argsSchema: {
+        date: z.string().optional().describe('Day to plan from (YYYY-MM-DD, today or yesterday; default: today)')
+      }
+    },
+    async ({ date }: { date?: string }): Promise<any> => {
+      const day = date ? resolveDay(date, rizeApi.calendar).startDate : today(rizeApi.timeZone);
+      const weekBefore = { startDate: shiftDays(day, -7), endDate: shiftDays(day, -1) };
+      const sessions = await rizeApi.getFocusSessions(day);
+      const todayMetrics = await rizeApi.getSummaries(day, day, { sessions });
+      const weekMetrics = await rizeApi.getSummaries(weekBefore.startDate, weekBefore.endDate, { countSessions: false });
+      const recent = summarizePeriod(weekBefore, weekMetrics, rizeApi.schedule);
+      const { start, end } = rizeApi.schedule.workingHours;
+
+      let text = `Help me plan ${nextWorkingDay(day, rizeApi.schedule)}, my next working day. ${GROUNDING}\n\n`;
+      text += `Structure the answer as:\n`;
+      text += `1. **Today in one line**: what got done on ${day}\n`;
+      text += `2. **Focus blocks**: 2-4 time blocks within my working hours (${clockTime(start)}-${clockTime(end)}), with a project and a goal each\n`;
+      text += `3. **Breaks and meetings**: where they fit without fragmenting focus\n`;
+      text += `4. **Realistic target**: focus time to aim for, based on the recent average\n\n`;
+      text += `## ${day}\n${formatProductivityMetrics(todayMetrics, rizeApi.schedule)}\n${formatFocusSessions(sessions, rizeApi.timeZone)}\n`;
+      text += `## Last 7 days\n`;
+      text += `• ${formatDuration(recent.totalFocusTime)} focus over ${recent.activeDays} active days`;
+      text += ` (${formatDuration(recent.activeDays > 0 ? Math.round(recent.totalFocusTime / recent.activeDays) : 0)} per active day,`;
+      text += ` ${formatDuration(Math.round(recent.averageFocusPerWorkingDay))} per working day)\n\n`;
+      text += `## Active projects\n${await activeProjectNames(rizeApi)}`;
+      return userPrompt(text);
+    }
+  );
+}
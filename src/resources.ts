@@ -0,0 +1,131 @@
+import { ResourceTemplate } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { SubscribeRequestSchema, UnsubscribeRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import { Logger } from 'winston';
+import { DataChange, RizeApiService } from './services/rize-api.js';
+import { validateInput, CalendarDateSchema } from './utils/validation.js';
+import { buildCategoryBreakdown } from './utils/analytics.js';
+import { shiftDays, today } from './utils/dates.js';
+import type { RizeMcpServer } from './server.js';
+
+const USER_URI = 'rize://user';
+const PROJECTS_URI = 'rize://projects';
+const DATED_URI = /^rize:\/\/(summary|sessions)\/(\d{4}-\d{2}-\d{2})$/;
+
+// Quanti giorni recenti resources/list elenca per i template con data
+const LISTED_DAYS = 7;
+
+function jsonContents(uri: URL, value: unknown) {
+  return {
+    contents: [{
+      uri: uri.href,
+      mimeType: 'application/json',
+      text: JSON.stringify(value, null, 2)
+    }]
+  };
+}
+
+function recentDays(timeZone: string): string[] {
+  const current = today(timeZone);
+  return Array.from({ length: LISTED_DAYS }, (_, index) => shiftDays(current, -index));
+}
+
+// URI sottoscritti i cui dati sono toccati da un cambiamento
+function affectedUris(change: DataChange, subscriptions: Set<string>): string[] {
+  return Array.from(subscriptions).filter(uri => {
+    if (uri === USER_URI) return change.namespace === 'user';
+    if (uri === PROJECTS_URI) return change.namespace === 'projects';
+    const match = DATED_URI.exec(uri);
+    if (!match) return false;
+    const [, kind, date] = match;
+    if (change.namespace !== (kind === 'summary' ? 'summaries' : 'sessions')) return false;
+    return !change.startDate || !change.endDate || (change.startDate <= date && date <= change.endDate);
+  });
+}
+
+// Espone l'account della sessione come risorse MCP, così i client possono allegare contesto senza chiamare tool.
+// Chi si iscrive riceve notifications/resources/updated quando i dati di una risorsa scadono e vengono
+// riletti, o sono invalidati da una mutation o da clear_cache.
+export function registerResources(server: RizeMcpServer, rizeApi: RizeApiService, logger: Logger): void {
+  server.registerResource(
+    'user',
+    USER_URI,
+    {
+      title: 'Rize user',
+      description: 'Profile of the connected Rize account',
+      mimeType: 'application/json'
+    },
+    async (uri: URL): Promise<any> => jsonContents(uri, { user: await rizeApi.getCurrentUser() })
+  );
+
+  server.registerResource(
+    'projects',
+    PROJECTS_URI,
+    {
+      title: 'Rize projects',
+      description: 'Every project of the account, archived ones included',
+      mimeType: 'application/json'
+    },
+    async (uri: URL): Promise<any> => jsonContents(uri, await rizeApi.getAllProjects())
+  );
+
+  server.registerResource(
+    'summary',
+    new ResourceTemplate('rize://summary/{date}', {
+      list: async () => ({
+        resources: recentDays(rizeApi.timeZone).map(date => ({ uri: `rize://summary/${date}`, name: `Summary ${date}`, mimeType: 'application/json' }))
+      })
+    }),
+    {
+      title: 'Daily summary',
+      description: 'Productivity metrics and category breakdown of one day (YYYY-MM-DD)',
+      mimeType: 'application/json'
+    },
+    async (uri: URL, { date }: { date: string }): Promise<any> => {
+      const validatedDate = validateInput(CalendarDateSchema, date);
+      const metrics = await rizeApi.getSummaries(validatedDate, validatedDate);
+      return jsonContents(uri, {
+        date: validatedDate,
+        metrics: metrics[0] ?? null,
+        categoryBreakdown: buildCategoryBreakdown(validatedDate, validatedDate, metrics).categories
+      });
+    }
+  );
+
+  server.registerResource(
+    'sessions',
+    new ResourceTemplate('rize://sessions/{date}', {
+      list: async () => ({
+        resources: recentDays(rizeApi.timeZone).map(date => ({ uri: `rize://sessions/${date}`, name: `Sessions ${date}`, mimeType: 'application/json' }))
+      })
+    }),
+    {
+      title: 'Daily sessions',
+      description: 'Focus, meeting and break sessions of one day (YYYY-MM-DD)',
+      mimeType: 'application/json'
+    },
+    async (uri: URL, { date }: { date: string }): Promise<any> => {
+      const validatedDate = validateInput(CalendarDateSchema, date);
+      return jsonContents(uri, { date: validatedDate, sessions: await rizeApi.getFocusSessions(validatedDate) });
+    }
+  );
+
+  const subscriptions = new Set<string>();
+  server.server.registerCapabilities({ resources: { subscribe: true } });
+  server.server.setRequestHandler(SubscribeRequestSchema, async (request: any) => {
+    subscriptions.add(request.params.uri);
+    return {};
+  });
+  server.server.setRequestHandler(UnsubscribeRequestSchema, async (request: any) => {
+    subscriptions.delete(request.params.uri);
+    return {};
+  });
+
+  const stopListening = rizeApi.onDataChanged(change => {
+    affectedUris(change, subscriptions).forEach(uri => {
+      server.server.sendResourceUpdated({ uri }).catch((error: Error) => {
+        logger.warn('Failed to send resource update', { uri, error: error.message });
+      });
+    });
+  });
+  server.server.onclose = () => stopListening();
+}
@@ -0,0 +1,1271 @@
+import { randomUUID } from 'node:crypto';
+import { mkdir, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import { Logger } from 'winston';
+import { RizeApiService, CacheScope } from './services/rize-api.js';
+import { RateLimitUsage } from './services/rate-limiter.js';
+import { CircuitState } from './services/circuit-breaker.js';
+import { validateInput, resolveDateRange, resolveDay, ResolvedDateRange, DATE_EXPRESSIONS, TimeframeSchema, CategorySchema, PaginationSchema, ProjectUpdateSchema, GoalSchema, SessionTypeSchema, SessionDurationSchema, validateTimeRange } from './utils/validation.js';
+import { formatProductivityMetrics, formatResolvedRange, formatFocusSessions, formatAnalytics, formatDate, formatDuration, formatProject, formatTimeEntries, formatTimeEntry, formatLiveSession, formatCategoryBreakdown, formatCategoryShares, formatTeamReport, formatGoal, formatGoalProgress } from './utils/formatting.js';
+import { buildCategoryBreakdown, buildTeamReport, onWorkingDays } from './utils/analytics.js';
+import { ValidationError } from './utils/errors.js';
+import { today } from './utils/dates.js';
+import { dailyGoalValues, evaluateGoal, goalDataRange } from './utils/goals.js';
+import { ExportDataset, ExportFormat, ExportTable, EXPORT_EXTENSIONS, EXPORT_MIME_TYPES, metricsTable, sessionsTable, categoriesTable, projectsTable, renderTable } from './utils/export.js';
+import { registerResources } from './resources.js';
+import { registerPrompts } from './prompts.js';
+import { GoalDirection, GoalMetric, GoalPeriod, RizeGoal, RizeProductivityMetrics, RizeProject } from './types/rize.js';
+import {
+  CurrentUserOutput,
+  ProductivityMetricsOutput,
+  FocusSessionsOutput,
+  AnalyticsReportOutput,
+  TeamReportOutput,
+  ExportReportOutput,
+  GoalOutput,
+  GoalListOutput,
+  GoalProgressOutput,
+  CurrentSessionOutput,
+  LiveSessionOutput,
+  StoppedSessionOutput,
+  ProjectListOutput,
+  ProjectOutput,
+  ProjectSearchOutput,
+  TimeEntryListOutput,
+  TimeEntryOutput,
+  ProductivitySummaryOutput,
+  CategoryBreakdownOutput,
+  CacheStatsOutput,
+  ClearCacheOutput,
+  SyncHistoryOutput,
+  HealthCheckOutput
+} from './types/mcp.js';
+
+export const SERVER_VERSION = '1.0.0';
+
+const START_DATE_HELP = `Start date or period: ${DATE_EXPRESSIONS}`;
+const END_DATE_HELP = 'End date or period (default: the end of the startDate period)';
+
+// Mostrato per le metriche che l'API di Rize non espone, invece di un valore inventato
+const UNAVAILABLE = 'n/a (not provided by Rize)';
+
+// I moduli dell'SDK sono dichiarati senza tipi (vedi types/mcp-sdk.d.ts), quindi il tipo dell'istanza è derivato
+export type RizeMcpServer = InstanceType<typeof McpServer>;
+
+export interface HealthReport {
+  status: 'healthy' | 'unhealthy';
+  timestamp: string;
+  apiConnection: boolean;
+  version: string;
+  rateLimit: RateLimitUsage;
+  circuit: { state: CircuitState; failures: number };
+  error?: string;
+}
+
+// Usato dal tool health_check e dalla route HTTP /healthz
+export async function checkHealth(rizeApi: RizeApiService): Promise<HealthReport> {
+  let apiError: string | undefined;
+  try {
+    await rizeApi.getCurrentUser();
+  } catch (error) {
+    apiError = (error as Error).message;
+  }
+  return {
+    status: apiError ? 'unhealthy' : 'healthy',
+    timestamp: new Date().toISOString(),
+    apiConnection: !apiError,
+    version: SERVER_VERSION,
+    rateLimit: rizeApi.getRateLimitUsage(),
+    circuit: rizeApi.getCircuitState(),
+    ...(apiError ? { error: apiError } : {})
+  };
+}
+
+export interface ServerContext {
+  resolveApi: (profile?: string) => RizeApiService;
+  profiles: string[]; // Selezionabili con l'argomento `profile` dei tool; vuoto se la sessione è legata a un solo account
+  exportDir?: string; // Dove export_report scrive i file; se assente gli export sono restituiti solo come risorse incorporate
+}
+
+interface ToolConfig {
+  description: string;
+  inputSchema?: Record<string, z.ZodTypeAny>;
+  outputSchema?: Record<string, z.ZodTypeAny>;
+}
+
+// Crea un server MCP con tutti i tool Rize registrati.
+// Un McpServer serve un solo trasporto, quindi il trasporto HTTP ne crea uno per sessione.
+export function createServer(context: ServerContext, logger: Logger): RizeMcpServer {
+  const server = new McpServer({
+    name: 'rize-mcp-server',
+    version: SERVER_VERSION
+  });
+
+  // Con più profili ogni tool accetta un `profile` opzionale e lavora su quell'account
+  const profileInput: Record<string, z.ZodTypeAny> = context.profiles.length > 1 ?
+    { profile: z.enum(context.profiles as [string, ...string[]]).optional().describe(`Rize profile to use (default: ${context.profiles[0]})`) } :
+    {};
+
+  function registerTool(name: string, config: ToolConfig, handler: (args: any, rizeApi: RizeApiService) => Promise<any>): void {
+    server.registerTool(
+      name,
+      { ...config, inputSchema: { ...config.inputSchema, ...profileInput } },
+      async (args: any): Promise<any> => handler(args, context.resolveApi(args?.profile))
+    );
+  }
+
+  registerTool(
+    'get_current_user',
+    {
+      description: 'Get current user information from Rize.io',
+      outputSchema: CurrentUserOutput
+    },
+    async (_args: object, rizeApi: RizeApiService): Promise<any> => {
+      try {
+        const user = await rizeApi.getCurrentUser();
+        return {
+          content: [{
+            type: 'text',
+            text: `👤 Current User: ${user.email}${user.name ? ` (${user.name})` : ''}\n🌍 Time zone: ${rizeApi.timeZone}`
+          }],
+          structuredContent: { user, timeZone: rizeApi.timeZone }
+        };
+      } catch (error) {
+        logger.error('Failed to get current user', { error: (error as Error).message });
+        throw error;
+      }
+    }
+  );
+
+  registerTool(
+    'get_productivity_metrics',
+    {
+      description: 'Get daily productivity metrics (focus time, score, breaks) for a date range',
+      inputSchema: {
+        startDate: z.string().describe(START_DATE_HELP),
+        endDate: z.string().optional().describe(END_DATE_HELP),
+        category: CategorySchema.describe('Category filter (work, personal, all)'),
+        workingDaysOnly: z.boolean().default(false).describe('Leave weekends and holidays out of the results')
+      },
+      outputSchema: ProductivityMetricsOutput
+    },
+    async ({ startDate, endDate, category, workingDaysOnly }: { startDate: string; endDate?: string; category: string; workingDaysOnly: boolean }, rizeApi: RizeApiService): Promise<any> => {
+      try {
+        logger.debug('Input dates', { startDate, endDate, category });
+        const dateRange = resolveDateRange(startDate, endDate, rizeApi.calendar);
+        logger.debug('Validated dates', dateRange);
+        let metrics = await rizeApi.getSummaries(
+          dateRange.startDate,
+          dateRange.endDate
+        );
+        if (workingDaysOnly) {
+          metrics = onWorkingDays(metrics, rizeApi.schedule);
+        }
+        logger.debug('Metrics retrieved', { count: metrics.length });
+        return {
+          content: [{
+            type: 'text',
+            text: `${formatResolvedRange(dateRange)}${formatProductivityMetrics(metrics, rizeApi.schedule)}`
+          }],
+          structuredContent: {
+            startDate: dateRange.startDate,
+            endDate: dateRange.endDate,
+            metrics
+          }
+        };
+      } catch (error) {
+        logger.error('Failed to get productivity metrics', { error: (error as Error).message, startDate, endDate, category });
+        throw error;
+      }
+    }
+  );
+
+  registerTool(
+    'get_focus_sessions',
+    {
+      description: 'List focus sessions in a date range, optionally filtered by project, category and minimum duration',
+      inputSchema: {
+        startDate: z.string().describe(START_DATE_HELP),
+        endDate: z.string().optional().describe(END_DATE_HELP),
+        projectId: z.string().optional().describe('Project ID filter'),
+        category: CategorySchema.describe('Category filter (work, personal, all)'),
+        minDuration: z.number().optional().describe('Minimum session duration in minutes')
+      },
+      outputSchema: FocusSessionsOutput
+    },
+    async ({ startDate, endDate, projectId, category, minDuration }: { startDate: string; endDate?: string; projectId?: string; category: 'work' | 'personal' | 'all'; minDuration?: number }, rizeApi: RizeApiService): Promise<any> => {
+      try {
+        const dateRange = resolveDateRange(startDate, endDate, rizeApi.calendar);
+        let sessions = await rizeApi.getFocusSessions(
+          dateRange.startDate,
+          dateRange.endDate,
+          { projectId, category }
+        );
+        if (minDuration) {
+          sessions = sessions.filter(session => (session.duration || 0) >= minDuration);
+        }
+        return {
+          content: [{
+            type: 'text',
+            text: `${formatResolvedRange(dateRange)}${formatFocusSessions(sessions, rizeApi.timeZone)}`
+          }],
+          structuredContent: {
+            startDate: dateRange.startDate,
+            endDate: dateRange.endDate,
+            sessions
+          }
+        };
+      } catch (error) {
+        logger.error('Failed to get focus sessions', { error: (error as Error).message, startDate, endDate, projectId, category });
+        throw error;
+      }
+    }
+  );
+
+  registerTool(
+    'get_current_session',
+    {
+      description: 'Get the focus or break session currently running, with elapsed and remaining time',
+      outputSchema: CurrentSessionOutput
+    },
+    async (_args: object, rizeApi: RizeApiService): Promise<any> => {
+      try {
+        const session = await rizeApi.getCurrentSession();
+        return {
+          content: [{
+            type: 'text',
+            text: session ? formatLiveSession(session, rizeApi.timeZone) : '💤 No session is currently running.'
+          }],
+          structuredContent: { session }
+        };
+      } catch (error) {
+        logger.error('Failed to get current session', { error: (error as Error).message });
+        throw error;
+      }
+    }
+  );
+
+  registerTool(
+    'start_session',
+    {
+      description: 'Start a focus or break session, e.g. a 50-minute focus block on a project',
+      inputSchema: {
+        type: SessionTypeSchema.describe('Session type (focus, break)'),
+        duration: SessionDurationSchema.describe('Planned duration in minutes'),
+        title: z.string().max(200).optional().describe('Session title, e.g. "API refactor"'),
+        projectId: z.string().optional().describe('Project ID (see search_projects)')
+      },
+      outputSchema: LiveSessionOutput
+    },
+    async ({ type, duration, title, projectId }: { type: 'focus' | 'break'; duration: number; title?: string; projectId?: string }, rizeApi: RizeApiService): Promise<any> => {
+      try {
+        const session = await rizeApi.startSession({ type, duration, title, projectId });
+        return {
+          content: [{
+            type: 'text',
+            text: `▶️ Session started\n\n${formatLiveSession(session, rizeApi.timeZone)}`
+          }],
+          structuredContent: { session }
+        };
+      } catch (error) {
+        logger.error('Failed to start session', { error: (error as Error).message, type, duration, title, projectId });
+        throw error;
+      }
+    }
+  );
+
+  registerTool(
+    'extend_session',
+    {
+      description: 'Extend the session currently running by a number of minutes',
+      inputSchema: {
+        minutes: SessionDurationSchema.describe('Minutes to add')
+      },
+      outputSchema: LiveSessionOutput
+    },
+    async ({ minutes }: { minutes: number }, rizeApi: RizeApiService): Promise<any> => {
+      try {
+        const session = await rizeApi.extendCurrentSession(minutes);
+        return {
+          content: [{
+            type: 'text',
+            text: `⏩ Session extended by ${formatDuration(minutes)}\n\n${formatLiveSession(session, rizeApi.timeZone)}`
+          }],
+          structuredContent: { session }
+        };
+      } catch (error) {
+        logger.error('Failed to extend session', { error: (error as Error).message, minutes });
+        throw error;
+      }
+    }
+  );
+
+  registerTool(
+    'stop_session',
+    {
+      description: 'Stop the session currently running',
+      outputSchema: StoppedSessionOutput
+    },
+    async (_args: object, rizeApi: RizeApiService): Promise<any> => {
+      try {
+        const session = await rizeApi.stopSession();
+        return {
+          content: [{
+            type: 'text',
+            text: `⏹️ Session stopped\n\n${formatFocusSessions([session], rizeApi.timeZone)}`
+          }],
+          structuredContent: { session }
+        };
+      } catch (error) {
+        logger.error('Failed to stop session', { error: (error as Error).message });
+        throw error;
+      }
+    }
+  );
+
+  registerTool(
+    'get_category_breakdown',
+    {
+      description: 'Get time spent per Rize category (with focus/work/idle flags and percentages) over a date range',
+      inputSchema: {
+        startDate: z.string().describe(START_DATE_HELP),
+        endDate: z.string().optional().describe(END_DATE_HELP),
+        includeDays: z.boolean().default(true).describe('Include per-day detail in the text output')
+      },
+      outputSchema: CategoryBreakdownOutput
+    },
+    async ({ startDate, endDate, includeDays }: { startDate: string; endDate?: string; includeDays: boolean }, rizeApi: RizeApiService): Promise<any> => {
+      try {
+        const dateRange = resolveDateRange(startDate, endDate, rizeApi.calendar);
+        const breakdown = await rizeApi.getCategoryBreakdown(dateRange.startDate, dateRange.endDate);
+        return {
+          content: [{
+            type: 'text',
+            text: `${formatResolvedRange(dateRange)}${formatCategoryBreakdown(breakdown, includeDays)}`
+          }],
+          structuredContent: { breakdown }
+        };
+      } catch (error) {
+        logger.error('Failed to get category breakdown', { error: (error as Error).message, startDate, endDate });
+        throw error;
+      }
+    }
+  );
+
+  registerTool(
+    'get_analytics_report',
+    {
+      description: 'Get an analytics report with trends and insights for the current day, week or month',
+      inputSchema: {
+        timeframe: TimeframeSchema.describe('Time frame for analytics (day, week, month)'),
+        includeInsights: z.boolean().default(true).describe('Include AI-generated insights'),
+        workingDaysOnly: z.boolean().default(false).describe('Leave weekends and holidays out of totals, averages and insights')
+      },
+      outputSchema: AnalyticsReportOutput
+    },
+    async ({ timeframe, includeInsights, workingDaysOnly }: { timeframe: 'day' | 'week' | 'month'; includeInsights: boolean; workingDaysOnly: boolean }, rizeApi: RizeApiService): Promise<any> => {
+      try {
+        const validatedTimeframe = validateInput(TimeframeSchema, timeframe);
+        const analytics = await rizeApi.getAnalytics(validatedTimeframe, includeInsights, workingDaysOnly);
+        return {
+          content: [{
+            type: 'text',
+            text: formatAnalytics(analytics, rizeApi.schedule)
+          }],
+          structuredContent: { analytics }
+        };
+      } catch (error) {
+        logger.error('Failed to get analytics report', { error: (error as Error).message, timeframe, includeInsights, workingDaysOnly });
+        throw error;
+      }
+    }
+  );
+
+  // Copre tutti i profili configurati, quindi è registrato senza l'argomento `profile`
+  server.registerTool(
+    'get_team_report',
+    {
+      description: 'Roll up focus, meeting and break time across the configured Rize profiles over a date range, with per-member comparisons and distribution stats. Privacy mode reports team aggregates only',
+      inputSchema: {
+        startDate: z.string().describe(START_DATE_HELP),
+        endDate: z.string().optional().describe(END_DATE_HELP),
+        members: z.array(z.string()).optional().describe('Profiles to include (default: every configured profile)'),
+        privacy: z.boolean().default(false).describe('Only report team aggregates, never per-member figures')
+      },
+      outputSchema: TeamReportOutput
+    },
+    async ({ startDate, endDate, members, privacy }: { startDate: string; endDate?: string; members?: string[]; privacy: boolean }): Promise<any> => {
+      try {
+        const dateRange = resolveDateRange(startDate, endDate, context.resolveApi().calendar);
+        const names = Array.from(new Set(members ?? context.profiles));
+        const unknown = names.filter(name => !context.profiles.includes(name));
+        if (unknown.length > 0) {
+          throw new ValidationError(
+            `Unknown profiles: ${unknown.join(', ')}. Available profiles: ${context.profiles.join(', ') || 'none'}`,
+            { unknown }
+          );
+        }
+        if (names.length < 2) {
+          throw new ValidationError('A team report needs at least two profiles. Configure them with RIZE_PROFILES');
+        }
+
+        // Un account in errore non deve far fallire tutto il report: viene invece elencato come non disponibile
+        const results = await Promise.allSettled(
+          names.map(name => context.resolveApi(name).getSummaries(dateRange.startDate, dateRange.endDate, { countSessions: false }))
+        );
+        const fetched: Array<{ name: string; metrics: RizeProductivityMetrics[] }> = [];
+        const unavailable: string[] = [];
+        results.forEach((result, index) => {
+          if (result.status === 'fulfilled') {
+            fetched.push({ name: names[index], metrics: result.value });
+          } else {
+            unavailable.push(names[index]);
+            logger.warn('Team report member unavailable', { profile: names[index], error: (result.reason as Error).message });
+          }
+        });
+        if (fetched.length === 0) {
+          throw (results[0] as PromiseRejectedResult).reason;
+        }
+        if (privacy && fetched.length < 2) {
+          // Aggregati su un solo membro esporrebbero i suoi dati
+          throw new ValidationError('Privacy mode needs data from at least two members; the other profiles could not be fetched', { unavailable });
+        }
+
+        const report = buildTeamReport({ startDate: dateRange.startDate, endDate: dateRange.endDate }, fetched, unavailable, privacy);
+        return {
+          content: [{
+            type: 'text',
+            text: `${formatResolvedRange(dateRange)}${formatTeamReport(report)}`
+          }],
+          structuredContent: { report }
+        };
+      } catch (error) {
+        logger.error('Failed to get team report', { error: (error as Error).message, startDate, endDate });
+        throw error;
+      }
+    }
+  );
+
+  registerTool(
+    'list_projects',
+    {
+      description: 'List Rize.io projects with cursor-based pagination, or every project at once with all: true',
+      inputSchema: {
+        limit: z.number().min(1).max(100).default(50).describe('Maximum number of projects to return'),
+        cursor: z.string().optional().describe('Pagination cursor'),
+        all: z.boolean().default(false).describe('Fetch every page and return all projects (ignores limit and cursor)')
+      },
+      outputSchema: ProjectListOutput
+    },
+    async ({ limit, cursor, all }: { limit: number; cursor?: string; all: boolean }, rizeApi: RizeApiService): Promise<any> => {
+      try {
+        let result: { projects: RizeProject[]; hasNextPage: boolean; nextCursor?: string };
+        if (all) {
+          const index = await rizeApi.getAllProjects();
+          result = { projects: index.projects, hasNextPage: index.truncated, nextCursor: index.nextCursor };
+        } else {
+          const pagination = validateInput(PaginationSchema, { limit, cursor });
+          result = await rizeApi.getProjects(pagination.limit, pagination.cursor);
+        }
+        let formatted = `📁 Projects (${result.projects.length} found)\n\n`;
+        result.projects.forEach(project => {
+          formatted += `• ${project.name}${project.isArchived ? ' (archived)' : ''}`;
+          formatted += `\n  ID: ${project.id}`;
+          formatted += `\n\n`;
+        });
+        if (result.hasNextPage) {
+          formatted += all ?
+            `\n⚠️ Stopped after ${result.projects.length} projects. Continue with cursor: ${result.nextCursor}` :
+            `\n🔄 More projects available. Use cursor: ${result.nextCursor}`;
+        }
+        return {
+          content: [{
+            type: 'text',
+            text: formatted
+          }],
+          structuredContent: result
+        };
+      } catch (error) {
+        logger.error('Failed to list projects', { error: (error as Error).message, limit, cursor, all });
+        throw error;
+      }
+    }
+  );
+
+  registerTool(
+    'search_projects',
+    {
+      description: 'Find projects by name (case-insensitive, tolerant to partial names and typos) to get their IDs',
+      inputSchema: {
+        query: z.string().min(1).describe('Project name or part of it'),
+        includeArchived: z.boolean().default(false).describe('Include archived projects'),
+        limit: z.number().min(1).max(50).default(10).describe('Maximum number of matches to return')
+      },
+      outputSchema: ProjectSearchOutput
+    },
+    async ({ query, includeArchived, limit }: { query: string; includeArchived: boolean; limit: number }, rizeApi: RizeApiService): Promise<any> => {
+      try {
+        const matches = await rizeApi.searchProjects(query, includeArchived, limit);
+        let formatted = `🔍 Projects matching "${query}" (${matches.length} found)\n\n`;
+        matches.forEach(({ project, score }) => {
+          formatted += `• ${project.name}${project.isArchived ? ' (archived)' : ''}`;
+          formatted += `\n  ID: ${project.id}, Match: ${Math.round(score * 100)}%`;
+          formatted += `\n\n`;
+        });
+        if (matches.length === 0) {
+          formatted += includeArchived ? 'No projects found.' : 'No active projects found. Try includeArchived: true.';
+        }
+        return {
+          content: [{
+            type: 'text',
+            text: formatted
+          }],
+          structuredContent: { query, matches }
+        };
+      } catch (error) {
+        logger.error('Failed to search projects', { error: (error as Error).message, query, includeArchived });
+        throw error;
+      }
+    }
+  );
+
+  registerTool(
+    'create_project',
+    {
+      description: 'Create a new Rize.io project',
+      inputSchema: {
+        name: z.string().min(1).max(100).describe('Project name'),
+        description: z.string().optional().describe('Project description')
+      },
+      outputSchema: ProjectOutput
+    },
+    async ({ name, description }: { name: string; description?: string }, rizeApi: RizeApiService): Promise<any> => {
+      try {
+        const project = await rizeApi.createProject(name, description);
+        return {
+          content: [{
+            type: 'text',
+            text: `✅ Project created successfully!\n\n📁 ${project.name}\n🆔 ID: ${project.id}${project.createdAt ? `\n📅 Created: ${formatDate(project.createdAt, rizeApi.timeZone)}` : ''}`
+          }],
+          structuredContent: { project }
+        };
+      } catch (error) {
+        logger.error('Failed to create project', { error: (error as Error).message, name, description });
+        throw error;
+      }
+    }
+  );
+
+  registerTool(
+    'get_project',
+    {
+      description: 'Get a single Rize.io project by ID',
+      inputSchema: {
+        projectId: z.string().min(1).describe('Project ID')
+      },
+      outputSchema: ProjectOutput
+    },
+    async ({ projectId }: { projectId: string }, rizeApi: RizeApiService): Promise<any> => {
+      try {
+        const project = await rizeApi.getProject(projectId);
+        return {
+          content: [{
+            type: 'text',
+            text: formatProject(project, rizeApi.timeZone)
+          }],
+          structuredContent: { project }
+        };
+      } catch (error) {
+        logger.error('Failed to get project', { error: (error as Error).message, projectId });
+        throw error;
+      }
+    }
+  );
+
+  registerTool(
+    'update_project',
+    {
+      description: 'Update the name, description or color of a Rize.io project',
+      inputSchema: {
+        projectId: z.string().min(1).describe('Project ID'),
+        name: z.string().min(1).max(100).optional().describe('New project name'),
+        description: z.string().optional().describe('New project description'),
+        color: z.string().optional().describe('New project color as hex (e.g. #3B82F6)')
+      },
+      outputSchema: ProjectOutput
+    },
+    async ({ projectId, name, description, color }: { projectId: string; name?: string; description?: string; color?: string }, rizeApi: RizeApiService): Promise<any> => {
+      try {
+        const changes = validateInput(ProjectUpdateSchema, { name, description, color });
+        const project = await rizeApi.updateProject(projectId, changes);
+        return {
+          content: [{
+            type: 'text',
+            text: `✅ Project updated successfully!\n\n${formatProject(project, rizeApi.timeZone)}`
+          }],
+          structuredContent: { project }
+        };
+      } catch (error) {
+        logger.error('Failed to update project', { error: (error as Error).message, projectId, name, description, color });
+        throw error;
+      }
+    }
+  );
+
+  registerTool(
+    'archive_project',
+    {
+      description: 'Archive a Rize.io project (can be undone with unarchive_project)',
+      inputSchema: {
+        projectId: z.string().min(1).describe('Project ID')
+      },
+      outputSchema: ProjectOutput
+    },
+    async ({ projectId }: { projectId: string }, rizeApi: RizeApiService): Promise<any> => {
+      try {
+        const project = await rizeApi.archiveProject(projectId);
+        return {
+          content: [{
+            type: 'text',
+            text: `🗄️ Project archived\n\n${formatProject(project, rizeApi.timeZone)}`
+          }],
+          structuredContent: { project }
+        };
+      } catch (error) {
+        logger.error('Failed to archive project', { error: (error as Error).message, projectId });
+        throw error;
+      }
+    }
+  );
+
+  registerTool(
+    'unarchive_project',
+    {
+      description: 'Restore an archived Rize.io project',
+      inputSchema: {
+        projectId: z.string().min(1).describe('Project ID')
+      },
+      outputSchema: ProjectOutput
+    },
+    async ({ projectId }: { projectId: string }, rizeApi: RizeApiService): Promise<any> => {
+      try {
+        const project = await rizeApi.unarchiveProject(projectId);
+        return {
+          content: [{
+            type: 'text',
+            text: `📂 Project restored\n\n${formatProject(project, rizeApi.timeZone)}`
+          }],
+          structuredContent: { project }
+        };
+      } catch (error) {
+        logger.error('Failed to unarchive project', { error: (error as Error).message, projectId });
+        throw error;
+      }
+    }
+  );
+
+  registerTool(
+    'delete_project',
+    {
+      description: 'Permanently delete a Rize.io project. Requires confirm: true',
+      inputSchema: {
+        projectId: z.string().min(1).describe('Project ID'),
+        confirm: z.boolean().default(false).describe('Must be true to confirm the irreversible deletion')
+      },
+      outputSchema: ProjectOutput
+    },
+    async ({ projectId, confirm }: { projectId: string; confirm: boolean }, rizeApi: RizeApiService): Promise<any> => {
+      try {
+        if (!confirm) {
+          throw new ValidationError('Deleting a project cannot be undone. Call delete_project again with confirm: true, or use archive_project instead', { projectId });
+        }
+        const project = await rizeApi.deleteProject(projectId);
+        return {
+          content: [{
+            type: 'text',
+            text: `🗑️ Project deleted\n\n📁 ${project.name}\n🆔 ID: ${project.id}`
+          }],
+          structuredContent: { project }
+        };
+      } catch (error) {
+        logger.error('Failed to delete project', { error: (error as Error).message, projectId });
+        throw error;
+      }
+    }
+  );
+
+  registerTool(
+    'list_time_entries',
+    {
+      description: 'List project time entries (tracked and manual) in a date range',
+      inputSchema: {
+        startDate: z.string().describe(START_DATE_HELP),
+        endDate: z.string().optional().describe(END_DATE_HELP),
+        projectId: z.string().optional().describe('Project ID filter')
+      },
+      outputSchema: TimeEntryListOutput
+    },
+    async ({ startDate, endDate, projectId }: { startDate: string; endDate?: string; projectId?: string }, rizeApi: RizeApiService): Promise<any> => {
+      try {
+        const dateRange = resolveDateRange(startDate, endDate, rizeApi.calendar);
+        const entries = await rizeApi.getTimeEntries(dateRange.startDate, dateRange.endDate, projectId);
+        return {
+          content: [{
+            type: 'text',
+            text: `${formatResolvedRange(dateRange)}${formatTimeEntries(entries, rizeApi.timeZone)}`
+          }],
+          structuredContent: {
+            startDate: dateRange.startDate,
+            endDate: dateRange.endDate,
+            entries
+          }
+        };
+      } catch (error) {
+        logger.error('Failed to list time entries', { error: (error as Error).message, startDate, endDate, projectId });
+        throw error;
+      }
+    }
+  );
+
+  registerTool(
+    'create_time_entry',
+    {
+      description: 'Log a retroactive time entry. Rejects entries overlapping existing ones unless allowOverlap is true',
+      inputSchema: {
+        startTime: z.string().describe('Start date-time (ISO 8601, e.g. 2025-09-22T09:00:00+02:00; without an offset it is read in the configured time zone)'),
+        endTime: z.string().describe('End date-time (ISO 8601)'),
+        projectId: z.string().optional().describe('Project ID (see search_projects)'),
+        description: z.string().optional().describe('What was worked on'),
+        tags: z.array(z.string()).optional().describe('Tags'),
+        allowOverlap: z.boolean().default(false).describe('Allow overlapping existing time entries')
+      },
+      outputSchema: TimeEntryOutput
+    },
+    async ({ startTime, endTime, projectId, description, tags, allowOverlap }: { startTime: string; endTime: string; projectId?: string; description?: string; tags?: string[]; allowOverlap: boolean }, rizeApi: RizeApiService): Promise<any> => {
+      try {
+        const range = validateTimeRange(startTime, endTime, rizeApi.timeZone);
+        const entry = await rizeApi.createTimeEntry({ ...range, projectId, description, tags }, allowOverlap);
+        return {
+          content: [{
+            type: 'text',
+            text: `✅ Time entry created\n\n${formatTimeEntry(entry, rizeApi.timeZone)}`
+          }],
+          structuredContent: { entry }
+        };
+      } catch (error) {
+        logger.error('Failed to create time entry', { error: (error as Error).message, startTime, endTime, projectId });
+        throw error;
+      }
+    }
+  );
+
+  registerTool(
+    'update_time_entry',
+    {
+      description: 'Update a time entry. When changing times, provide both startTime and endTime',
+      inputSchema: {
+        entryId: z.string().min(1).describe('Time entry ID'),
+        startTime: z.string().optional().describe('New start date-time (ISO 8601)'),
+        endTime: z.string().optional().describe('New end date-time (ISO 8601)'),
+        projectId: z.string().optional().describe('New project ID'),
+        description: z.string().optional().describe('New description'),
+        tags: z.array(z.string()).optional().describe('New tags (replaces existing ones)'),
+        allowOverlap: z.boolean().default(false).describe('Allow overlapping existing time entries')
+      },
+      outputSchema: TimeEntryOutput
+    },
+    async ({ entryId, startTime, endTime, projectId, description, tags, allowOverlap }: { entryId: string; startTime?: string; endTime?: string; projectId?: string; description?: string; tags?: string[]; allowOverlap: boolean }, rizeApi: RizeApiService): Promise<any> => {
+      try {
+        if ((startTime === undefined) !== (endTime === undefined)) {
+          throw new ValidationError('Provide both startTime and endTime when changing the time range', { entryId });
+        }
+        const range = startTime && endTime ? validateTimeRange(startTime, endTime, rizeApi.timeZone) : {};
+        const changes = { ...range, projectId, description, tags };
+        if (Object.values(changes).every(value => value === undefined)) {
+          throw new ValidationError('Provide at least one field to update', { entryId });
+        }
+        const entry = await rizeApi.updateTimeEntry(entryId, changes, allowOverlap);
+        return {
+          content: [{
+            type: 'text',
+            text: `✅ Time entry updated\n\n${formatTimeEntry(entry, rizeApi.timeZone)}`
+          }],
+          structuredContent: { entry }
+        };
+      } catch (error) {
+        logger.error('Failed to update time entry', { error: (error as Error).message, entryId });
+        throw error;
+      }
+    }
+  );
+
+  registerTool(
+    'delete_time_entry',
+    {
+      description: 'Permanently delete a time entry. Requires confirm: true',
+      inputSchema: {
+        entryId: z.string().min(1).describe('Time entry ID'),
+        confirm: z.boolean().default(false).describe('Must be true to confirm the irreversible deletion')
+      },
+      outputSchema: TimeEntryOutput
+    },
+    async ({ entryId, confirm }: { entryId: string; confirm: boolean }, rizeApi: RizeApiService): Promise<any> => {
+      try {
+        if (!confirm) {
+          throw new ValidationError('Deleting a time entry cannot be undone. Call delete_time_entry again with confirm: true', { entryId });
+        }
+        const entry = await rizeApi.deleteTimeEntry(entryId);
+        return {
+          content: [{
+            type: 'text',
+            text: `🗑️ Time entry deleted\n\n${formatTimeEntry(entry, rizeApi.timeZone)}`
+          }],
+          structuredContent: { entry }
+        };
+      } catch (error) {
+        logger.error('Failed to delete time entry', { error: (error as Error).message, entryId });
+        throw error;
+      }
+    }
+  );
+
+  registerTool(
+    'get_productivity_summary',
+    {
+      description: 'Get the productivity summary of a single day with an optional session breakdown',
+      inputSchema: {
+        date: z.string().describe('Day for the summary: YYYY-MM-DD, today or yesterday'),
+        includeBreakdown: z.boolean().default(true).describe('Include category breakdown')
+      },
+      outputSchema: ProductivitySummaryOutput
+    },
+    async ({ date, includeBreakdown }: { date: string; includeBreakdown: boolean }, rizeApi: RizeApiService): Promise<any> => {
+      try {
+        const day = resolveDay(date, rizeApi.calendar);
+        const validatedDate = day.startDate;
+        const metrics = await rizeApi.getSummaries(validatedDate, validatedDate);
+        const sessions = await rizeApi.getFocusSessions(validatedDate);
+        if (metrics.length === 0) {
+          return {
+            content: [{
+              type: 'text',
+              text: `${formatResolvedRange(day)}📅 No productivity data available for ${validatedDate}`
+            }],
+            structuredContent: {
+              date: validatedDate,
+              metrics: null,
+              categoryBreakdown: [],
+              sessions
+            }
+          };
+        }
+        const dayMetrics = metrics[0];
+        let formatted = `${formatResolvedRange(day)}📊 Productivity Summary for ${validatedDate}\n\n`;
+        formatted += `🎯 Focus Time: ${formatDuration(dayMetrics.totalFocusTime)}\n`;
+        formatted += `⚡ Productivity Score: ${dayMetrics.productivityScore}/100\n`;
+        formatted += `📈 Focus Sessions: ${dayMetrics.focusSessionsCount}\n`;
+        formatted += `🤝 Meeting Time: ${formatDuration(dayMetrics.meetingTime)}\n`;
+        formatted += `☕ Break Time: ${formatDuration(dayMetrics.breakTime)}\n`;
+        formatted += `🔄 Context Switches: ${dayMetrics.contextSwitches ?? UNAVAILABLE}\n`;
+        formatted += `📱 Distraction Time: ${dayMetrics.distractionTime === null ? UNAVAILABLE : formatDuration(dayMetrics.distractionTime)}\n`;
+        formatted += `🏆 Top Category: ${dayMetrics.topCategory.name}\n`;
+        const breakdown = buildCategoryBreakdown(validatedDate, validatedDate, metrics).categories;
+        if (includeBreakdown && breakdown.length > 0) {
+          formatted += `\n📋 Category Breakdown:\n`;
+          formatted += formatCategoryShares(breakdown);
+        }
+        return {
+          content: [{
+            type: 'text',
+            text: formatted
+          }],
+          structuredContent: {
+            date: validatedDate,
+            metrics: dayMetrics,
+            categoryBreakdown: breakdown,
+            sessions
+          }
+        };
+      } catch (error) {
+        logger.error('Failed to get productivity summary', { error: (error as Error).message, date });
+        throw error;
+      }
+    }
+  );
+
+  registerTool(
+    'export_report',
+    {
+      description: 'Export daily metrics, sessions, category breakdown or projects as CSV, a Markdown table or JSON, written to the export directory or returned as an embedded resource',
+      inputSchema: {
+        dataset: z.enum(['metrics', 'sessions', 'categories', 'projects']).describe('Data to export'),
+        format: z.enum(['csv', 'markdown', 'json']).default('csv').describe('Output format'),
+        startDate: z.string().optional().describe(`${START_DATE_HELP}. Required except for projects`),
+        endDate: z.string().optional().describe(END_DATE_HELP),
+        destination: z.enum(['file', 'resource']).optional().describe('Write a file to EXPORT_DIR or return the export inline (default: file when EXPORT_DIR is set)'),
+        includeArchived: z.boolean().default(false).describe('Include archived projects (projects dataset only)')
+      },
+      outputSchema: ExportReportOutput
+    },
+    async ({ dataset, format: exportFormat, startDate, endDate, destination, includeArchived, profile }: { dataset: ExportDataset; format: ExportFormat; startDate?: string; endDate?: string; destination?: 'file' | 'resource'; includeArchived: boolean; profile?: string }, rizeApi: RizeApiService): Promise<any> => {
+      try {
+        const target = destination ?? (context.exportDir ? 'file' : 'resource');
+        if (target === 'file' && !context.exportDir) {
+          throw new ValidationError('Set EXPORT_DIR to write export files, or use destination: "resource"');
+        }
+
+        let table: ExportTable;
+        let suffix: string;
+        let dateRange: ResolvedDateRange | undefined;
+        if (dataset === 'projects') {
+          const { projects } = await rizeApi.getAllProjects();
+          table = projectsTable(projects.filter(project => includeArchived || !project.isArchived), rizeApi.timeZone);
+          suffix = today(rizeApi.timeZone);
+        } else {
+          if (!startDate) {
+            throw new ValidationError(`startDate is required for the ${dataset} dataset`);
+          }
+          dateRange = resolveDateRange(startDate, endDate, rizeApi.calendar);
+          suffix = `${dateRange.startDate}_${dateRange.endDate}`;
+          if (dataset === 'sessions') {
+            table = sessionsTable(await rizeApi.getFocusSessions(dateRange.startDate, dateRange.endDate), rizeApi.timeZone);
+          } else {
+            const metrics = await rizeApi.getSummaries(dateRange.startDate, dateRange.endDate, { countSessions: dataset === 'metrics' });
+            table = dataset === 'metrics' ?
+              metricsTable(metrics) :
+              categoriesTable(buildCategoryBreakdown(dateRange.startDate, dateRange.endDate, metrics).categories);
+          }
+        }
+
+        const content = renderTable(table, exportFormat);
+        const filename = `${profile ? `${profile}_` : ''}${dataset}_${suffix}.${EXPORT_EXTENSIONS[exportFormat]}`;
+        const mimeType = EXPORT_MIME_TYPES[exportFormat];
+        const summary = `${dateRange ? formatResolvedRange(dateRange) : ''}📤 Exported ${table.rows.length} ${dataset} rows as ${exportFormat}`;
+
+        if (target === 'file') {
+          const path = join(context.exportDir as string, filename);
+          await mkdir(context.exportDir as string, { recursive: true });
+          await writeFile(path, content, 'utf8');
+          logger.info('Report exported', { dataset, format: exportFormat, path, rows: table.rows.length });
+          return {
+            content: [{
+              type: 'text',
+              text: `${summary}\n📁 ${path}`
+            }],
+            structuredContent: { dataset, format: exportFormat, startDate: dateRange?.startDate, endDate: dateRange?.endDate, rows: table.rows.length, filename, mimeType, path }
+          };
+        }
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `${summary} (${filename})`
+            },
+            {
+              type: 'resource',
+              resource: { uri: `rize://exports/${filename}`, mimeType, text: content }
+            }
+          ],
+          structuredContent: { dataset, format: exportFormat, startDate: dateRange?.startDate, endDate: dateRange?.endDate, rows: table.rows.length, filename, mimeType }
+        };
+      } catch (error) {
+        logger.error('Failed to export report', { error: (error as Error).message, dataset, format: exportFormat, startDate, endDate });
+        throw error;
+      }
+    }
+  );
+
+  registerTool(
+    'set_goal',
+    {
+      description: 'Create or update a goal, e.g. 4h focus per working day, meetings under 10h per week or 20h on a project per month. Goals are saved locally',
+      inputSchema: {
+        id: z.string().optional().describe('ID of the goal to update (omit to create a new goal)'),
+        name: z.string().optional().describe('Optional label, e.g. "Deep work"; kept when updating without one'),
+        metric: z.enum(['focus', 'meetings', 'breaks', 'sessions', 'project']).describe('What is measured: focus, meeting or break time, focus sessions, or time on one project'),
+        target: z.number().describe('Target in minutes, or number of focus sessions for the sessions metric'),
+        period: z.enum(['day', 'workday', 'week', 'month']).describe('Period the target applies to; workday goals skip weekends and holidays'),
+        direction: z.enum(['at_least', 'at_most']).default('at_least').describe('at_least for targets to reach, at_most for limits'),
+        projectId: z.string().optional().describe('Project ID, required for the project metric')
+      },
+      outputSchema: GoalOutput
+    },
+    async ({ id, name, metric, target, period, direction, projectId }: { id?: string; name?: string; metric: GoalMetric; target: number; period: GoalPeriod; direction: GoalDirection; projectId?: string }, rizeApi: RizeApiService): Promise<any> => {
+      try {
+        const definition = validateInput(GoalSchema, { name, metric, target, period, direction, projectId });
+        const existing = id ? await rizeApi.goals.get(id) : undefined;
+        if (id && !existing) {
+          throw new ValidationError(`Goal ${id} not found. Use list_goals to see the saved goals`, { id });
+        }
+        // Il nome del progetto viene salvato per i report, così non serve una chiamata API per ogni obiettivo
+        const projectName = definition.projectId ? (await rizeApi.getProject(definition.projectId)).name : undefined;
+        const now = new Date().toISOString();
+        const goal: RizeGoal = {
+          id: existing?.id ?? randomUUID().slice(0, 8),
+          ...definition,
+          name: definition.name ?? existing?.name,
+          projectName,
+          createdAt: existing?.createdAt ?? now,
+          updatedAt: now
+        };
+        await rizeApi.goals.save(goal);
+        logger.info('Goal saved', { id: goal.id, metric, period, updated: Boolean(existing) });
+        return {
+          content: [{
+            type: 'text',
+            text: `${existing ? '✏️ Goal updated' : '✅ Goal created'}\n\n${formatGoal(goal)}`
+          }],
+          structuredContent: { goal }
+        };
+      } catch (error) {
+        logger.error('Failed to save goal', { error: (error as Error).message, id, metric, period });
+        throw error;
+      }
+    }
+  );
+
+  registerTool(
+    'list_goals',
+    {
+      description: 'List the saved goals',
+      outputSchema: GoalListOutput
+    },
+    async (_args: object, rizeApi: RizeApiService): Promise<any> => {
+      try {
+        const goals = await rizeApi.goals.list();
+        const text = goals.length === 0 ?
+          'No goals set. Use set_goal to add one.' :
+          `🏆 Goals (${goals.length})\n\n${goals.map(goal => formatGoal(goal)).join('\n')}`;
+        return {
+          content: [{
+            type: 'text',
+            text
+          }],
+          structuredContent: { goals, location: rizeApi.goals.location }
+        };
+      } catch (error) {
+        logger.error('Failed to list goals', { error: (error as Error).message });
+        throw error;
+      }
+    }
+  );
+
+  registerTool(
+    'get_goal_progress',
+    {
+      description: 'Progress of the saved goals in their current period: pace against the working time elapsed, projected total and completion, and the streak of periods meeting the goal',
+      inputSchema: {
+        id: z.string().optional().describe('Goal ID (default: every goal)')
+      },
+      outputSchema: GoalProgressOutput
+    },
+    async ({ id }: { id?: string }, rizeApi: RizeApiService): Promise<any> => {
+      try {
+        let goals = await rizeApi.goals.list();
+        if (id) {
+          goals = goals.filter(goal => goal.id === id);
+          if (goals.length === 0) {
+            throw new ValidationError(`Goal ${id} not found. Use list_goals to see the saved goals`, { id });
+          }
+        }
+        if (goals.length === 0) {
+          return {
+            content: [{
+              type: 'text',
+              text: 'No goals set. Use set_goal to add one.'
+            }],
+            structuredContent: { progress: [] }
+          };
+        }
+
+        // Una sola lettura che copre periodo corrente e streak di tutti gli obiettivi
+        const now = new Date();
+        const ranges = goals.map(goal => goalDataRange(goal, rizeApi.calendar, rizeApi.schedule, now));
+        const startDate = ranges.map(range => range.startDate).sort()[0];
+        const endDate = today(rizeApi.timeZone, now);
+        const metrics = goals.some(goal => goal.metric !== 'project') ?
+          await rizeApi.getSummaries(startDate, endDate, { countSessions: goals.some(goal => goal.metric === 'sessions') }) : [];
+        // Il tempo di un progetto è quello delle sue time entry: anche quelle inserite a mano, senza una sessione
+        const timeEntries = goals.some(goal => goal.metric === 'project') ? await rizeApi.getTimeEntries(startDate, endDate) : [];
+
+        const progress = goals.map(goal =>
+          evaluateGoal(goal, dailyGoalValues(goal, metrics, timeEntries, rizeApi.timeZone), rizeApi.calendar, rizeApi.schedule, now)
+        );
+        return {
+          content: [{
+            type: 'text',
+            text: `🏆 Goal Progress (${endDate})\n\n${progress.map(formatGoalProgress).join('\n')}`
+          }],
+          structuredContent: { progress }
+        };
+      } catch (error) {
+        logger.error('Failed to get goal progress', { error: (error as Error).message, id });
+        throw error;
+      }
+    }
+  );
+
+  registerTool(
+    'delete_goal',
+    {
+      description: 'Delete a saved goal. Requires confirm: true',
+      inputSchema: {
+        id: z.string().min(1).describe('Goal ID'),
+        confirm: z.boolean().default(false).describe('Must be true to confirm the deletion')
+      },
+      outputSchema: GoalOutput
+    },
+    async ({ id, confirm }: { id: string; confirm: boolean }, rizeApi: RizeApiService): Promise<any> => {
+      try {
+        if (!confirm) {
+          throw new ValidationError('Deleting a goal cannot be undone. Call delete_goal again with confirm: true', { id });
+        }
+        const goal = await rizeApi.goals.delete(id);
+        if (!goal) {
+          throw new ValidationError(`Goal ${id} not found. Use list_goals to see the saved goals`, { id });
+        }
+        logger.info('Goal deleted', { id });
+        return {
+          content: [{
+            type: 'text',
+            text: `🗑️ Goal deleted\n\n${formatGoal(goal)}`
+          }],
+          structuredContent: { goal }
+        };
+      } catch (error) {
+        logger.error('Failed to delete goal', { error: (error as Error).message, id });
+        throw error;
+      }
+    }
+  );
+
+  registerTool(
+    'cache_stats',
+    {
+      description: 'Show cache size and hit rates, overall and per data type',
+      outputSchema: CacheStatsOutput
+    },
+    async (_args: object, rizeApi: RizeApiService): Promise<any> => {
+      const stats = rizeApi.getCacheStats();
+      let formatted = `🗃️ Cache Statistics\n\n`;
+      formatted += `📦 Entries: ${stats.size}/${stats.maxSize}\n`;
+      formatted += `🎯 Hit Rate: ${(stats.hitRate * 100).toFixed(1)}% (${stats.hits} hits, ${stats.misses} misses)\n`;
+      const namespaces = Object.entries(stats.namespaces);
+      if (namespaces.length > 0) {
+        formatted += `\n📋 By Data Type:\n`;
+        namespaces.forEach(([namespace, counter]) => {
+          formatted += `• ${namespace}: ${counter.entries} entries, ${(counter.hitRate * 100).toFixed(1)}% hit rate (${counter.hits}/${counter.hits + counter.misses})\n`;
+        });
+      }
+      return {
+        content: [{
+          type: 'text',
+          text: formatted
+        }],
+        structuredContent: stats
+      };
+    }
+  );
+
+  registerTool(
+    'clear_cache',
+    {
+      description: 'Clear cached Rize data, entirely or for one data type, to force fresh API reads',
+      inputSchema: {
+        scope: z.enum(['all', 'user', 'projects', 'summaries', 'sessions', 'analytics']).default('all').describe('What to clear')
+      },
+      outputSchema: ClearCacheOutput
+    },
+    async ({ scope }: { scope: CacheScope }, rizeApi: RizeApiService): Promise<any> => {
+      const removed = rizeApi.clearCache(scope);
+      logger.info('Cache cleared', { scope, removed });
+      return {
+        content: [{
+          type: 'text',
+          text: `🧹 Cache cleared (${scope}): ${removed} entries removed`
+        }],
+        structuredContent: { scope, removed }
+      };
+    }
+  );
+
+  registerTool(
+    'sync_history',
+    {
+      description: 'Download completed days (daily summaries and sessions) into the local history store so long-range reports run from disk, even offline. Only days not stored yet are fetched unless force is set. The most recent days (HISTORY_SETTLE_DAYS, default 3) are never stored, since Rize may still reprocess them',
+      inputSchema: {
+        startDate: z.string().describe(`First day or period to sync: ${DATE_EXPRESSIONS}`),
+        endDate: z.string().optional().describe('Last day or period to sync (default: today; recent days are skipped)'),
+        force: z.boolean().default(false).describe('Download every day of the range again, replacing the stored copies')
+      },
+      outputSchema: SyncHistoryOutput
+    },
+    async ({ startDate, endDate, force }: { startDate: string; endDate?: string; force: boolean }, rizeApi: RizeApiService): Promise<any> => {
+      try {
+        const range = resolveDateRange(startDate, endDate ?? 'today', rizeApi.calendar);
+        const result = await rizeApi.syncHistory(range.startDate, range.endDate, force);
+        logger.info('History synced', { startDate, endDate, force, syncedDays: result.syncedDays });
+        let formatted = `${formatResolvedRange(range)}🗄️ History Store\n\n`;
+        formatted += `⬇️ Days downloaded: ${result.syncedDays}\n`;
+        formatted += `📦 Days stored: ${result.days}`;
+        if (result.firstDate && result.lastDate) {
+          formatted += ` (${result.firstDate} → ${result.lastDate})`;
+        }
+        formatted += `\n📁 Directory: ${result.directory}\n`;
+        return {
+          content: [{
+            type: 'text',
+            text: formatted
+          }],
+          structuredContent: { ...result, startDate: range.startDate, endDate: range.endDate }
+        };
+      } catch (error) {
+        logger.error('Failed to sync history', { error: (error as Error).message, startDate, endDate, force });
+        throw error;
+      }
+    }
+  );
+
+  registerTool(
+    'health_check',
+    {
+      description: 'Check the health status of the Rize MCP server',
+      outputSchema: HealthCheckOutput
+    },
+    async (_args: object, rizeApi: RizeApiService): Promise<any> => {
+      const report = await checkHealth(rizeApi);
+      const { rateLimit, circuit } = report;
+
+      let formatted = report.error ?
+        `❌ Rize MCP Server Health Check\n\n🔴 Status: Unhealthy\n📅 Timestamp: ${report.timestamp}\n❌ API Connection: Failed\n📝 Error: ${report.error}\n` :
+        `✅ Rize MCP Server Health Check\n\n🟢 Status: Healthy\n📅 Timestamp: ${report.timestamp}\n🔑 API Connection: OK\n📊 Version: ${report.version}\n`;
+      formatted += rateLimit.enabled ?
+        `🚦 Rate Limit: ${rateLimit.used}/${rateLimit.limit} requests in the last ${Math.round(rateLimit.windowMs / 1000)}s` +
+        `${rateLimit.queued > 0 ? `, ${rateLimit.queued} queued` : ''}` +
+        `${rateLimit.blockedForMs > 0 ? `, paused for ${Math.ceil(rateLimit.blockedForMs / 1000)}s by the API` : ''}\n` :
+        `🚦 Rate Limit: disabled\n`;
+      formatted += `🔌 Circuit Breaker: ${circuit.state}${circuit.failures > 0 ? ` (${circuit.failures} consecutive failures)` : ''}\n`;
+
+      return {
+        content: [{
+          type: 'text',
+          text: formatted
+        }],
+        structuredContent: report
+      };
+    }
+  );
+
+  // Risorse e prompt leggono sempre l'account di default della sessione
+  registerResources(server, context.resolveApi(), logger);
+  registerPrompts(server, context.resolveApi());
+
+  server.onerror = (error: any) => {
+    logger.error('MCP Server Error', { error: (error as Error).message, stack: (error as Error).stack });
+  };
+
+  return server;
+}
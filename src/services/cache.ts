@@ -5,30 +5,91 @@ export interface CacheConfig {
   ttl: number; // Time to live in milliseconds
 }
 
+export interface CacheNamespaceStats {
+  hits: number;
+  misses: number;
+  hitRate: number; // 0-1, 0 se il namespace non è mai stato letto
+}
+
+export interface CacheStats extends CacheNamespaceStats {
+  size: number;
+  maxSize: number;
+  namespaces: Record<string, CacheNamespaceStats & { entries: number }>;
+}
+
+// Le chiavi hanno la forma "<namespace>:<resto>", es. "summaries:2025-09-01:2025-09-07";
+// i contatori di hit/miss sono tenuti per namespace.
 export class CacheService {
   private cache: LRUCache<string, any>;
+  private maxSize: number;
+  private counters = new Map<string, { hits: number; misses: number }>();
+  // Valori scaduti (come JSON) in attesa di essere riletti, al massimo maxSize: le chiavi tolte dalla LRU
+  // per fare spazio non vengono ricordate
+  private expired = new Map<string, string>();
+  private refreshListeners = new Set<(key: string) => void>();
 
   constructor(config: CacheConfig) {
+    this.maxSize = config.maxSize;
     this.cache = new LRUCache({
       max: config.maxSize,
-      ttl: config.ttl
+      ttl: config.ttl,
+      dispose: (value, key, reason) => {
+        if (reason !== 'expire') return;
+        this.expired.set(key, JSON.stringify(value));
+        if (this.expired.size > this.maxSize) {
+          this.expired.delete(this.expired.keys().next().value as string);
+        }
+      }
     });
   }
 
   get<T>(key: string): T | undefined {
-    return this.cache.get(key) as T | undefined;
+    const value = this.cache.get(key) as T | undefined;
+    const counter = this.counter(key);
+    if (value === undefined) {
+      counter.misses++;
+    } else {
+      counter.hits++;
+    }
+    return value;
   }
 
-  set<T>(key: string, value: T): void {
-    this.cache.set(key, value);
+  set<T>(key: string, value: T, ttl?: number): void {
+    this.cache.set(key, value, ttl !== undefined ? { ttl } : undefined);
+    const previous = this.expired.get(key);
+    this.expired.delete(key);
+    if (previous !== undefined && previous !== JSON.stringify(value)) {
+      this.refreshListeners.forEach(listener => listener(key));
+    }
+  }
+
+  // Chiamato quando un valore scaduto viene sostituito da dati diversi; delete e clear espliciti lo azzerano
+  onRefresh(listener: (key: string) => void): () => void {
+    this.refreshListeners.add(listener);
+    return () => this.refreshListeners.delete(listener);
   }
 
   delete(key: string): void {
     this.cache.delete(key);
+    this.expired.delete(key);
+  }
+
+  // Rimuove tutte le chiavi che iniziano con prefix e restituisce quante ne ha rimosse
+  deleteByPrefix(prefix: string): number {
+    let removed = 0;
+    for (const key of Array.from(this.cache.keys())) {
+      if (key.startsWith(prefix)) {
+        this.cache.delete(key);
+        removed++;
+      }
+    }
+    Array.from(this.expired.keys()).filter(key => key.startsWith(prefix)).forEach(key => this.expired.delete(key));
+    return removed;
   }
 
   clear(): void {
     this.cache.clear();
+    this.expired.clear();
   }
 
   has(key: string): boolean {
@@ -38,4 +99,59 @@ export class CacheService {
   size(): number {
     return this.cache.size;
   }
+
+  getStats(): CacheStats {
+    const namespaces: CacheStats['namespaces'] = {};
+    const entryCounts = new Map<string, number>();
+    for (const key of this.cache.keys()) {
+      const namespace = namespaceOf(key);
+      entryCounts.set(namespace, (entryCounts.get(namespace) || 0) + 1);
+    }
+
+    let hits = 0;
+    let misses = 0;
+    const names = new Set([...this.counters.keys(), ...entryCounts.keys()]);
+    names.forEach(namespace => {
+      const counter = this.counters.get(namespace) || { hits: 0, misses: 0 };
+      hits += counter.hits;
+      misses += counter.misses;
+      namespaces[namespace] = {
+        ...counter,
+        hitRate: hitRate(counter.hits, counter.misses),
+        entries: entryCounts.get(namespace) || 0
+      };
+    });
+
+    return {
+      size: this.cache.size,
+      maxSize: this.maxSize,
+      hits,
+      misses,
+      hitRate: hitRate(hits, misses),
+      namespaces
+    };
+  }
+
+  resetStats(): void {
+    this.counters.clear();
+  }
+
+  private counter(key: string): { hits: number; misses: number } {
+    const namespace = namespaceOf(key);
+    let counter = this.counters.get(namespace);
+    if (!counter) {
+      counter = { hits: 0, misses: 0 };
+      this.counters.set(namespace, counter);
+    }
+    return counter;
+  }
+}
+
+function namespaceOf(key: string): string {
+  const index = key.indexOf(':');
+  return index === -1 ? key : key.slice(0, index);
+}
+
+function hitRate(hits: number, misses: number): number {
+  return hits + misses > 0 ? hits / (hits + misses) : 0;
 }
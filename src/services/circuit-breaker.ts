@@ -0,0 +1,70 @@
+import { RizeApiError } from '../utils/errors.js';
+
+export interface CircuitBreakerConfig {
+  failureThreshold: number; // Errori consecutivi dell'API che aprono il circuito
+  resetTimeoutMs: number; // Quanto resta aperto il circuito prima di una richiesta di prova
+}
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+// Fallisce subito mentre l'API di Rize non risponde, invece di accumulare richieste lente e destinate a fallire.
+// Dopo resetTimeoutMs lascia passare una sola richiesta di prova (half-open):
+// se riesce il circuito si chiude, se fallisce si riapre.
+export class CircuitBreaker {
+  private config: CircuitBreakerConfig;
+  private state: CircuitState = 'closed';
+  private failures = 0;
+  private openedAt = 0;
+  private trialInFlight = false;
+
+  constructor(config: CircuitBreakerConfig) {
+    this.config = config;
+  }
+
+  assertCanRequest(): void {
+    if (this.state === 'open') {
+      const remainingMs = this.openedAt + this.config.resetTimeoutMs - Date.now();
+      if (remainingMs > 0) {
+        throw new RizeApiError(
+          `The Rize API failed ${this.failures} times in a row; requests are paused for ${Math.ceil(remainingMs / 1000)}s. Try again shortly`,
+          { circuit: 'open' }
+        );
+      }
+      this.state = 'half-open';
+    }
+    if (this.state === 'half-open') {
+      if (this.trialInFlight) {
+        throw new RizeApiError('The Rize API is recovering from repeated failures; a trial request is in progress. Try again shortly', { circuit: 'half-open' });
+      }
+      this.trialInFlight = true;
+    }
+  }
+
+  recordSuccess(): void {
+    this.state = 'closed';
+    this.failures = 0;
+    this.trialInFlight = false;
+  }
+
+  recordFailure(): void {
+    this.failures++;
+    this.trialInFlight = false;
+    if (this.state === 'half-open' || this.failures >= this.config.failureThreshold) {
+      this.state = 'open';
+      this.openedAt = Date.now();
+    }
+  }
+
+  // Esiti che non dicono nulla sulla salute dell'API (es. API key rifiutata, rate limit locale) liberano
+  // la richiesta di prova senza cambiare stato né contatore degli errori
+  recordNeutral(): void {
+    this.trialInFlight = false;
+  }
+
+  getState(): { state: CircuitState; failures: number } {
+    if (this.state === 'open' && Date.now() >= this.openedAt + this.config.resetTimeoutMs) {
+      return { state: 'half-open', failures: this.failures };
+    }
+    return { state: this.state, failures: this.failures };
+  }
+}
@@ -0,0 +1,85 @@
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { RizeGoal } from '../types/rize.js';
+
+// Obiettivi di un profilo in un piccolo file JSON (goals.json), riscritto per intero a ogni modifica.
+// Senza directory gli obiettivi restano solo in memoria, finché il processo è attivo.
+export class GoalStore {
+  private directory?: string;
+  private goals = new Map<string, RizeGoal>();
+  private loading?: Promise<void>;
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(directory?: string) {
+    this.directory = directory;
+  }
+
+  get location(): string {
+    return this.directory ? this.file : 'memory';
+  }
+
+  private get file(): string {
+    return join(this.directory as string, 'goals.json');
+  }
+
+  async list(): Promise<RizeGoal[]> {
+    await this.load();
+    return Array.from(this.goals.values()).sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  }
+
+  async get(id: string): Promise<RizeGoal | undefined> {
+    await this.load();
+    return this.goals.get(id);
+  }
+
+  // Aggiunge l'obiettivo o sostituisce quello con lo stesso id
+  async save(goal: RizeGoal): Promise<RizeGoal> {
+    await this.load();
+    this.goals.set(goal.id, goal);
+    await this.persist();
+    return goal;
+  }
+
+  async delete(id: string): Promise<RizeGoal | undefined> {
+    await this.load();
+    const goal = this.goals.get(id);
+    if (goal) {
+      this.goals.delete(id);
+      await this.persist();
+    }
+    return goal;
+  }
+
+  private load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = this.readFile();
+    }
+    return this.loading;
+  }
+
+  private async readFile(): Promise<void> {
+    if (!this.directory) return;
+    let content: string;
+    try {
+      content = await readFile(this.file, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return;
+      throw error;
+    }
+    (JSON.parse(content) as RizeGoal[]).forEach(goal => this.goals.set(goal.id, goal));
+  }
+
+  // Le scritture sono in coda così modifiche concorrenti non si mescolano; file temporaneo più rename
+  // lasciano goals.json intatto se il processo si ferma a metà scrittura
+  private persist(): Promise<void> {
+    if (!this.directory) return Promise.resolve();
+    const directory = this.directory;
+    const content = JSON.stringify(Array.from(this.goals.values()), null, 2) + '\n';
+    this.writing = this.writing.catch(() => undefined).then(async () => {
+      await mkdir(directory, { recursive: true });
+      await writeFile(`${this.file}.tmp`, content, 'utf8');
+      await rename(`${this.file}.tmp`, this.file);
+    });
+    return this.writing;
+  }
+}
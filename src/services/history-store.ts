@@ -0,0 +1,125 @@
+import { appendFile, mkdir, readFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { eachDayOfInterval, format, parseISO } from 'date-fns';
+import { RizeFocusSession, RizeProductivityMetrics } from '../types/rize.js';
+
+export interface HistoryDay {
+  date: string; // YYYY-MM-DD
+  metrics: RizeProductivityMetrics | null; // null se Rize non aveva dati per il giorno
+  sessions: RizeFocusSession[];
+  syncedAt: string;
+}
+
+export interface HistoryStats {
+  directory: string;
+  days: number;
+  firstDate?: string;
+  lastDate?: string;
+}
+
+// Storico append-only in JSON lines dei giorni conclusi (un HistoryDay per riga).
+// I giorni assestati (qualche giorno dopo la fine) cambiano di rado su Rize, quindi ognuno viene scritto una volta e poi letto in locale.
+// Un giorno modificato tramite questo server (es. una time entry retroattiva) riceve una riga
+// che lo segna come superato ({ date, stale: true }) e viene riscaricato alla lettura successiva.
+export class HistoryStore {
+  private directory: string;
+  private days = new Map<string, HistoryDay>();
+  private loading?: Promise<void>;
+
+  constructor(directory: string) {
+    this.directory = directory;
+  }
+
+  private get file(): string {
+    return join(this.directory, 'history.jsonl');
+  }
+
+  async missingDays(startDate: string, endDate: string): Promise<string[]> {
+    await this.load();
+    return enumerateDays(startDate, endDate).filter(day => !this.days.has(day));
+  }
+
+  async getDays(startDate: string, endDate: string): Promise<HistoryDay[]> {
+    await this.load();
+    return enumerateDays(startDate, endDate)
+      .map(day => this.days.get(day))
+      .filter((day): day is HistoryDay => day !== undefined);
+  }
+
+  async saveDays(days: HistoryDay[]): Promise<void> {
+    if (days.length === 0) return;
+    await this.load();
+    await mkdir(this.directory, { recursive: true });
+    await appendFile(this.file, days.map(day => JSON.stringify(day)).join('\n') + '\n', 'utf8');
+    days.forEach(day => this.days.set(day.date, day));
+  }
+
+  async markStale(dates: string[]): Promise<void> {
+    await this.load();
+    const stored = dates.filter(date => this.days.has(date));
+    if (stored.length === 0) return;
+    await appendFile(this.file, stored.map(date => JSON.stringify({ date, stale: true })).join('\n') + '\n', 'utf8');
+    stored.forEach(date => this.days.delete(date));
+  }
+
+  async getStats(): Promise<HistoryStats> {
+    await this.load();
+    const dates = Array.from(this.days.keys()).sort();
+    return {
+      directory: this.directory,
+      days: dates.length,
+      firstDate: dates[0],
+      lastDate: dates[dates.length - 1]
+    };
+  }
+
+  private load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = this.readFile();
+    }
+    return this.loading;
+  }
+
+  private async readFile(): Promise<void> {
+    let content: string;
+    try {
+      content = await readFile(this.file, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return;
+      throw error;
+    }
+    content.split('\n').forEach(line => {
+      if (!line.trim()) return;
+      try {
+        const day = JSON.parse(line) as HistoryDay | { date: string; stale: true };
+        if ('stale' in day) {
+          this.days.delete(day.date);
+        } else {
+          this.days.set(day.date, day);
+        }
+      } catch {
+        // Riga troncata (es. crash durante la scrittura): il giorno viene semplicemente riscaricato
+      }
+    });
+  }
+}
+
+export function enumerateDays(startDate: string, endDate: string): string[] {
+  if (startDate > endDate) return [];
+  return eachDayOfInterval({ start: parseISO(startDate), end: parseISO(endDate) })
+    .map(day => format(day, 'yyyy-MM-dd'));
+}
+
+// Raggruppa giorni ordinati in intervalli contigui [start, end], per scaricare i giorni mancanti con poche query
+export function toContiguousRanges(days: string[]): Array<{ start: string; end: string }> {
+  const ranges: Array<{ start: string; end: string }> = [];
+  days.forEach(day => {
+    const last = ranges[ranges.length - 1];
+    if (last && enumerateDays(last.end, day).length === 2) {
+      last.end = day;
+    } else {
+      ranges.push({ start: day, end: day });
+    }
+  });
+  return ranges;
+}
@@ -0,0 +1,177 @@
+import { RizeAnalyticsPeriod, RizeFocusSession, RizeInsight, RizeProductivityMetrics } from '../types/rize.js';
+import { hourInZone } from '../utils/dates.js';
+
+export interface InsightThresholds {
+  focusChange: number; // Variazione rispetto al periodo precedente che genera un insight sul focus (0.2 = 20%)
+  meetingHeavyMinutes: number; // Minuti di meeting oltre i quali una giornata è piena di meeting
+  deepWorkMinutes: number; // Minuti di focus oltre i quali una giornata è di deep work
+  streakDays: number; // Giorni consecutivi di deep work da segnalare
+  lateNightHour: number; // Sessioni che iniziano da quest'ora in poi (o prima delle 5) contano come notturne
+}
+
+export const DEFAULT_INSIGHT_THRESHOLDS: InsightThresholds = {
+  focusChange: 0.2,
+  meetingHeavyMinutes: 240,
+  deepWorkMinutes: 180,
+  streakDays: 3,
+  lateNightHour: 22
+};
+
+const EARLY_MORNING_HOUR = 5;
+
+export interface InsightInput {
+  timeframe: string;
+  metrics: RizeProductivityMetrics[];
+  sessions: RizeFocusSession[];
+  focusTimeChange: number | null;
+  periods: {
+    current: RizeAnalyticsPeriod;
+    previous: RizeAnalyticsPeriod;
+  };
+}
+
+export class InsightsService {
+  private thresholds: InsightThresholds;
+  private timeZone?: string;
+
+  // Senza fuso orario, l'ora delle sessioni viene letta così come scritta nei timestamp di Rize
+  constructor(thresholds: Partial<InsightThresholds> = {}, timeZone?: string) {
+    this.thresholds = { ...DEFAULT_INSIGHT_THRESHOLDS, ...thresholds };
+    this.timeZone = timeZone;
+  }
+
+  generate(input: InsightInput, now: Date = new Date()): RizeInsight[] {
+    const timestamp = now.toISOString();
+    const insights = [
+      this.focusTrendInsight(input),
+      this.meetingHeavyInsight(input),
+      this.deepWorkStreakInsight(input),
+      this.lateNightInsight(input)
+    ].filter((insight): insight is Omit<RizeInsight, 'timestamp'> => insight !== null);
+
+    const order = { high: 0, medium: 1, low: 2 };
+    return insights
+      .map(insight => ({ ...insight, timestamp }))
+      .sort((a, b) => order[a.priority] - order[b.priority]);
+  }
+
+  private focusTrendInsight(input: InsightInput): Omit<RizeInsight, 'timestamp'> | null {
+    const change = input.focusTimeChange;
+    if (change === null || Math.abs(change) < this.thresholds.focusChange) {
+      return null;
+    }
+    const percent = Math.round(Math.abs(change) * 100);
+    const metadata = {
+      change,
+      currentFocusTime: input.periods.current.totalFocusTime,
+      previousFocusTime: input.periods.previous.totalFocusTime
+    };
+
+    if (change < 0) {
+      return {
+        id: `focus-drop-${input.periods.current.startDate}`,
+        type: 'recommendation',
+        title: `Focus time down ${percent}% vs previous ${input.timeframe}`,
+        description: `You logged ${input.periods.current.totalFocusTime} focus minutes against ${input.periods.previous.totalFocusTime} in the previous ${input.timeframe}. Consider blocking dedicated focus slots in your calendar.`,
+        priority: change <= -this.thresholds.focusChange * 2 ? 'high' : 'medium',
+        category: 'focus',
+        metadata
+      };
+    }
+    return {
+      id: `focus-gain-${input.periods.current.startDate}`,
+      type: 'achievement',
+      title: `Focus time up ${percent}% vs previous ${input.timeframe}`,
+      description: `You logged ${input.periods.current.totalFocusTime} focus minutes against ${input.periods.previous.totalFocusTime} in the previous ${input.timeframe}. Keep it up!`,
+      priority: 'low',
+      category: 'focus',
+      metadata
+    };
+  }
+
+  private meetingHeavyInsight(input: InsightInput): Omit<RizeInsight, 'timestamp'> | null {
+    const heavyDays = input.metrics.filter(m => m.meetingTime >= this.thresholds.meetingHeavyMinutes);
+    if (heavyDays.length === 0) {
+      return null;
+    }
+    return {
+      id: `meeting-heavy-${input.periods.current.startDate}`,
+      type: 'observation',
+      title: `${heavyDays.length} meeting-heavy day${heavyDays.length > 1 ? 's' : ''}`,
+      description: `Meetings took at least ${this.thresholds.meetingHeavyMinutes} minutes on ${heavyDays.map(m => m.date.slice(0, 10)).join(', ')}. Batching meetings can free up longer focus blocks.`,
+      priority: heavyDays.length > 1 ? 'medium' : 'low',
+      category: 'meetings',
+      metadata: {
+        days: heavyDays.map(m => ({ date: m.date.slice(0, 10), meetingTime: m.meetingTime }))
+      }
+    };
+  }
+
+  private deepWorkStreakInsight(input: InsightInput): Omit<RizeInsight, 'timestamp'> | null {
+    const sorted = [...input.metrics].sort((a, b) => a.date.localeCompare(b.date));
+    let longest = 0;
+    let current = 0;
+    let streakEnd = '';
+    sorted.forEach(m => {
+      current = m.totalFocusTime >= this.thresholds.deepWorkMinutes ? current + 1 : 0;
+      if (current > longest) {
+        longest = current;
+        streakEnd = m.date.slice(0, 10);
+      }
+    });
+
+    if (longest < this.thresholds.streakDays) {
+      return null;
+    }
+    return {
+      id: `deep-work-streak-${streakEnd}`,
+      type: 'achievement',
+      title: `${longest}-day deep-work streak`,
+      description: `You reached at least ${this.thresholds.deepWorkMinutes} focus minutes on ${longest} consecutive days (ending ${streakEnd}).`,
+      priority: 'low',
+      category: 'focus',
+      metadata: { streakDays: longest, streakEnd }
+    };
+  }
+
+  private sessionHour(startTime: string): number | null {
+    if (!this.timeZone) {
+      return getWallClockHour(startTime);
+    }
+    try {
+      return hourInZone(startTime, this.timeZone);
+    } catch {
+      return null;
+    }
+  }
+
+  private lateNightInsight(input: InsightInput): Omit<RizeInsight, 'timestamp'> | null {
+    const lateSessions = input.sessions.filter(session => {
+      const hour = this.sessionHour(session.startTime);
+      return hour !== null && (hour >= this.thresholds.lateNightHour || hour < EARLY_MORNING_HOUR);
+    });
+    if (lateSessions.length === 0) {
+      return null;
+    }
+    return {
+      id: `late-night-${input.periods.current.startDate}`,
+      type: 'recommendation',
+      title: `${lateSessions.length} late-night session${lateSessions.length > 1 ? 's' : ''}`,
+      description: `Some sessions started after ${this.thresholds.lateNightHour}:00. Regular late-night work tends to hurt next-day focus; try wrapping up earlier.`,
+      priority: lateSessions.length >= 3 ? 'medium' : 'low',
+      category: 'wellbeing',
+      metadata: { sessionIds: lateSessions.map(session => session.id) }
+    };
+  }
+}
+
+// Legge l'ora come scritta nel timestamp ("2025-09-05 23:10:00 +0200" -> 23),
+// cioè l'orologio dell'utente e non il fuso orario del server
+function getWallClockHour(dateTime: string): number | null {
+  const match = /[T ](\d{2}):\d{2}/.exec(dateTime);
+  if (match) {
+    return parseInt(match[1]);
+  }
+  const parsed = new Date(dateTime);
+  return isNaN(parsed.getTime()) ? null : parsed.getHours();
+}
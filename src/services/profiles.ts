@@ -0,0 +1,92 @@
+import { createHash } from 'node:crypto';
+import { join } from 'node:path';
+import { RizeApiService, RizeApiOptions } from './rize-api.js';
+import { ValidationError } from '../utils/errors.js';
+
+export const DEFAULT_PROFILE = 'default';
+
+// Servizio di una API key portata da una sessione HTTP: release va chiamata alla chiusura della sessione
+export interface SessionService {
+  service: RizeApiService;
+  release: () => void;
+}
+
+// Un RizeApiService (con AuthService, GraphQLClient, cache, rate limiter e storico propri) per account Rize,
+// così i dati di utenti diversi non condividono mai una voce di cache.
+// I profili con nome arrivano dalla configurazione; le sessioni HTTP possono portare una propria API key.
+export class ProfileRegistry {
+  private keys: Map<string, string>;
+  private options: Partial<RizeApiOptions>;
+  private services = new Map<string, RizeApiService>();
+  private sessionServices = new Map<string, { service: RizeApiService; sessions: number }>();
+
+  constructor(defaultApiKey: string | undefined, profiles: Record<string, string>, options: Partial<RizeApiOptions> = {}) {
+    this.keys = new Map(Object.entries(profiles));
+    if (defaultApiKey) {
+      this.keys = new Map([[DEFAULT_PROFILE, defaultApiKey], ...this.keys]);
+    }
+    this.options = options;
+  }
+
+  // Nomi dei profili, quello di default per primo
+  get names(): string[] {
+    return Array.from(this.keys.keys());
+  }
+
+  get(profile?: string): RizeApiService {
+    const name = profile ?? this.names[0];
+    const apiKey = name !== undefined ? this.keys.get(name) : undefined;
+    if (name === undefined || apiKey === undefined) {
+      throw new ValidationError(
+        this.names.length > 0 ?
+          `Unknown profile "${profile}". Available profiles: ${this.names.join(', ')}` :
+          'No Rize profile is configured. Set RIZE_API_KEY or RIZE_PROFILES',
+        { profile }
+      );
+    }
+    let service = this.services.get(name);
+    if (!service) {
+      // Il profilo di default usa le directory radice di storico e obiettivi, così chi ha un solo account mantiene i propri dati
+      service = this.create(apiKey, name === DEFAULT_PROFILE ? [] : ['profiles', name]);
+      this.services.set(name, service);
+    }
+    return service;
+  }
+
+  // Credenziali fornite da una sessione HTTP; sessioni con la stessa key condividono un unico servizio,
+  // tenuto finché resta aperta almeno una di loro
+  forApiKey(apiKey: string): SessionService {
+    const id = createHash('sha256').update(apiKey).digest('hex').slice(0, 16);
+    let entry = this.sessionServices.get(id);
+    if (!entry) {
+      entry = { service: this.create(apiKey, ['keys', id]), sessions: 0 };
+      this.sessionServices.set(id, entry);
+    }
+    entry.sessions++;
+    const bound = entry;
+    let released = false;
+    return {
+      service: bound.service,
+      release: () => {
+        if (released) return;
+        released = true;
+        if (--bound.sessions === 0 && this.sessionServices.get(id) === bound) {
+          this.sessionServices.delete(id);
+        }
+      }
+    };
+  }
+
+  // Servizi di API key di sessione ancora in uso
+  get sessionCount(): number {
+    return this.sessionServices.size;
+  }
+
+  private create(apiKey: string, subdir: string[]): RizeApiService {
+    return new RizeApiService(apiKey, {
+      ...this.options,
+      historyDir: this.options.historyDir ? join(this.options.historyDir, ...subdir) : undefined,
+      goalsDir: this.options.goalsDir ? join(this.options.goalsDir, ...subdir) : undefined
+    });
+  }
+}
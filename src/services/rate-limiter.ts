@@ -0,0 +1,94 @@
+import { RateLimitError } from '../utils/errors.js';
+
+export interface RateLimiterConfig {
+  enabled: boolean;
+  maxRequests: number;
+  windowMs: number;
+  queueTimeoutMs: number; // Attesa massima di una richiesta in coda prima di fallire
+}
+
+export interface RateLimitUsage {
+  enabled: boolean;
+  used: number;
+  limit: number;
+  windowMs: number;
+  resetInMs: number; // Finché la richiesta più vecchia esce dalla finestra
+  queued: number;
+  blockedForMs: number; // Pausa residua imposta da un header Retry-After
+}
+
+// Limiter a finestra scorrevole: al massimo maxRequests chiamate in ogni intervallo di windowMs.
+// Le chiamate oltre la quota attendono in ordine FIFO, fino a queueTimeoutMs.
+export class RateLimiter {
+  private config: RateLimiterConfig;
+  private timestamps: number[] = [];
+  private blockedUntil = 0;
+  private queue: Promise<void> = Promise.resolve();
+  private queued = 0;
+
+  constructor(config: RateLimiterConfig) {
+    this.config = config;
+  }
+
+  async acquire(): Promise<void> {
+    if (!this.config.enabled) return;
+
+    const deadline = Date.now() + this.config.queueTimeoutMs;
+    this.queued++;
+    const turn = this.queue.then(() => this.waitForSlot(deadline));
+    // Una richiesta scaduta non deve bloccare quelle in coda dopo di lei
+    this.queue = turn.catch(() => undefined);
+    try {
+      await turn;
+    } finally {
+      this.queued--;
+    }
+  }
+
+  // Ferma tutte le richieste per il tempo indicato, es. dopo un 429 con Retry-After
+  pause(ms: number): void {
+    this.blockedUntil = Math.max(this.blockedUntil, Date.now() + ms);
+  }
+
+  getUsage(): RateLimitUsage {
+    const now = Date.now();
+    this.prune(now);
+    return {
+      enabled: this.config.enabled,
+      used: this.timestamps.length,
+      limit: this.config.maxRequests,
+      windowMs: this.config.windowMs,
+      resetInMs: this.timestamps.length > 0 ? this.timestamps[0] + this.config.windowMs - now : 0,
+      queued: this.queued,
+      blockedForMs: Math.max(0, this.blockedUntil - now)
+    };
+  }
+
+  private async waitForSlot(deadline: number): Promise<void> {
+    for (;;) {
+      const now = Date.now();
+      this.prune(now);
+      const windowWait = this.timestamps.length >= this.config.maxRequests ?
+        this.timestamps[0] + this.config.windowMs - now : 0;
+      const waitMs = Math.max(windowWait, this.blockedUntil - now);
+
+      if (waitMs <= 0) {
+        this.timestamps.push(now);
+        return;
+      }
+      if (now + waitMs > deadline) {
+        throw new RateLimitError(
+          `Client-side limit of ${this.config.maxRequests} requests per ${Math.round(this.config.windowMs / 1000)}s reached. Retry in ${Math.ceil(waitMs / 1000)}s`,
+          waitMs
+        );
+      }
+      await new Promise(resolve => setTimeout(resolve, waitMs));
+    }
+  }
+
+  private prune(now: number): void {
+    while (this.timestamps.length > 0 && this.timestamps[0] <= now - this.config.windowMs) {
+      this.timestamps.shift();
+    }
+  }
+}
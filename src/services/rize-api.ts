@@ -1,27 +1,385 @@
-import { GraphQLClient, gql } from 'graphql-request';
-import { RizeUser, RizeProject, RizeFocusSession, RizeProductivityMetrics, RizeAnalytics } from '../types/rize.js';
+import { GraphQLClient, RequestDocument, gql } from 'graphql-request';
+import { addDays, format, min as minDate, parseISO } from 'date-fns';
+import { RizeUser, RizeProject, RizeFocusSession, RizeProductivityMetrics, RizeAnalytics, RizeInsight, FocusSessionFilters, SummaryOptions, ProjectChanges, RizeTimeEntry, TimeEntryInput, RizeLiveSession, StartSessionInput, RizeCategoryBreakdown } from '../types/rize.js';
 import { AuthService } from './auth.js';
-import { CacheService } from './cache.js';
+import { CacheService, CacheConfig, CacheStats } from './cache.js';
+import { InsightsService, InsightThresholds } from './insights.js';
+import { RateLimiter, RateLimiterConfig, RateLimitUsage } from './rate-limiter.js';
+import { CircuitBreaker, CircuitBreakerConfig, CircuitState } from './circuit-breaker.js';
+import { HistoryStore, HistoryStats, enumerateDays, toContiguousRanges } from './history-store.js';
+import { GoalStore } from './goal-store.js';
+import { RizeApiError, ValidationError, RateLimitError, classifyApiError, isRetryableError } from '../utils/errors.js';
+import { fuzzyScore } from '../utils/fuzzy.js';
+import { summarizePeriod, percentChange, computeConsistency, buildCategoryBreakdown, onWorkingDays, productivityScore, ScoreWeights, DEFAULT_SCORE_WEIGHTS } from '../utils/analytics.js';
+import { CalendarSettings, SYSTEM_TIME_ZONE, WeekDay, dayBoundsInZone, dayInZone, getComparisonPeriods, isDateOnly, shiftDays, today } from '../utils/dates.js';
+import { DEFAULT_SCHEDULE, WorkSchedule, isWorkingDay } from '../utils/schedule.js';
 // import { McpError } from '@modelcontextprotocol/sdk/types.js'; // Sostituire con errore custom se serve
 
+// Campi comuni a tutte le query e mutation sui progetti
+const PROJECT_FIELDS = gql`
+  fragment ProjectFields on Project {
+    id
+    name
+    description
+    color
+    isArchived
+    createdAt
+    updatedAt
+  }
+`;
+
+const SESSION_FIELDS = gql`
+  fragment SessionFields on Session {
+    id
+    startTime
+    endTime
+    title
+    type
+    projects {
+      id
+      name
+    }
+  }
+`;
+
+const TIME_ENTRY_FIELDS = gql`
+  fragment TimeEntryFields on ProjectTimeEntry {
+    id
+    startTime
+    endTime
+    description
+    source
+    tags
+    project {
+      id
+      name
+    }
+  }
+`;
+
+// Indice completo dei progetti: pagine da 100, al massimo 20 pagine (2000 progetti)
+const PROJECT_INDEX_CACHE_KEY = 'projects:all';
+const PROJECT_PAGE_SIZE = 100;
+const MAX_PROJECT_PAGES = 20;
+
+// Ampiezza massima (in giorni) di ogni singola query sessions
+const SESSION_WINDOW_DAYS = 7;
+
+// Ampiezza massima (in giorni) di ogni blocco scaricato durante la sincronizzazione dello storico
+const HISTORY_SYNC_DAYS = 31;
+
+// Giorni prima e dopo i nuovi orari in cui cercare una time entry modificata, per conoscerne gli orari
+// precedenti: l'API non ha una query per id
+const TIME_ENTRY_LOOKUP_DAYS = 31;
+
+export interface RizeApiOptions {
+  dailyFocusTarget: number; // Minuti di focus giornalieri usati per la consistency
+  scoreWeights: ScoreWeights; // Pesi di focus, meeting, pause e idle nel productivityScore
+  insights: Partial<InsightThresholds>;
+  rateLimiting: RateLimiterConfig;
+  endpoint: string;
+  requestTimeoutMs: number;
+  retry: {
+    retries: number; // Tentativi aggiuntivi, solo per le query (mai per le mutation)
+    baseDelayMs: number;
+    maxDelayMs: number;
+  };
+  circuitBreaker: CircuitBreakerConfig;
+  cache: RizeCacheOptions;
+  historyDir?: string; // Se impostata, i giorni conclusi vengono salvati e letti da disco
+  historySettleDays: number; // Giorni prima di oggi sempre letti dall'API e mai salvati: Rize può ancora rielaborarli
+  goalsDir?: string; // Dove salvare gli obiettivi; se assente restano in memoria
+  timeZone: string; // Fuso IANA dell'utente: definisce "oggi" e i confini delle giornate
+  weekStartsOn: WeekDay; // Primo giorno della settimana (0 = domenica)
+  schedule: WorkSchedule; // Giorni e orari lavorativi, festività: esclusi dalle medie "per giorno lavorativo"
+}
+
+export interface RizeCacheOptions extends CacheConfig {
+  pastDataTtl: number; // Giorni conclusi: i dati non cambiano più
+  todayTtl: number; // Range che includono oggi: i dati cambiano durante la giornata
+}
+
+export type CacheScope = 'all' | 'user' | 'projects' | 'summaries' | 'sessions' | 'analytics';
+
+// Dati cambiati: scaduti e riletti dall'API, oppure invalidati da una mutation o da clearCache.
+// Il range è presente solo quando il cambiamento riguarda un intervallo di date preciso.
+export interface DataChange {
+  namespace: Exclude<CacheScope, 'all'>;
+  startDate?: string;
+  endDate?: string;
+}
+
+const DEFAULT_OPTIONS: RizeApiOptions = {
+  dailyFocusTarget: 120,
+  scoreWeights: DEFAULT_SCORE_WEIGHTS,
+  timeZone: SYSTEM_TIME_ZONE,
+  weekStartsOn: 0,
+  schedule: DEFAULT_SCHEDULE,
+  historySettleDays: 3,
+  insights: {},
+  rateLimiting: {
+    enabled: true,
+    maxRequests: 100,
+    windowMs: 60 * 1000,
+    queueTimeoutMs: 30 * 1000
+  },
+  endpoint: 'https://api.rize.io/api/v1/graphql',
+  requestTimeoutMs: 15 * 1000,
+  retry: {
+    retries: 3,
+    baseDelayMs: 500,
+    maxDelayMs: 8 * 1000
+  },
+  circuitBreaker: {
+    failureThreshold: 5,
+    resetTimeoutMs: 30 * 1000
+  },
+  cache: {
+    maxSize: 1000,
+    ttl: 5 * 60 * 1000, // 5 minuti
+    pastDataTtl: 24 * 60 * 60 * 1000, // 24 ore
+    todayTtl: 60 * 1000 // 1 minuto
+  }
+};
+
+function isMutation(document: RequestDocument): boolean {
+  const source = typeof document === 'string' ? document : document.loc?.source.body ?? '';
+  return /^\s*mutation\b/.test(source);
+}
+
 export class RizeApiService {
   private client: GraphQLClient;
   private auth: AuthService;
   private cache: CacheService;
+  private insights: InsightsService;
+  private rateLimiter: RateLimiter;
+  private circuitBreaker: CircuitBreaker;
+  private history?: HistoryStore;
+  private goalStore: GoalStore;
+  private changeListeners = new Set<(change: DataChange) => void>();
+  private options: RizeApiOptions;
 
-  constructor(apiKey: string) {
+  constructor(apiKey: string, options: Partial<RizeApiOptions> = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+    this.insights = new InsightsService(this.options.insights, this.options.timeZone);
+    this.rateLimiter = new RateLimiter(this.options.rateLimiting);
+    this.circuitBreaker = new CircuitBreaker(this.options.circuitBreaker);
     this.auth = new AuthService(apiKey);
-    this.cache = new CacheService({
-      maxSize: 1000,
-      ttl: 5 * 60 * 1000 // 5 minuti
-    });
-    this.client = new GraphQLClient('https://api.rize.io/api/v1/graphql', {
+    this.cache = new CacheService(this.options.cache);
+    this.cache.onRefresh(key => this.emitChange(changeForCacheKey(key)));
+    if (this.options.historyDir) {
+      this.history = new HistoryStore(this.options.historyDir);
+    }
+    this.goalStore = new GoalStore(this.options.goalsDir);
+    this.client = new GraphQLClient(this.options.endpoint, {
       headers: this.auth.getHeaders()
     });
   }
 
+  // Unico punto di accesso all'API. Le query (idempotenti) vengono ritentate con backoff esponenziale
+  // e jitter sugli errori transitori; le mutation vengono eseguite una sola volta.
+  private async request<T = any>(document: RequestDocument, variables?: Record<string, unknown>): Promise<T> {
+    const maxAttempts = isMutation(document) ? 1 : this.options.retry.retries + 1;
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await this.attemptRequest<T>(document, variables);
+      } catch (error) {
+        if (attempt >= maxAttempts || !isRetryableError(error)) {
+          throw error;
+        }
+        // Full jitter: attesa casuale tra 0 e base * 2^(tentativo - 1), con un tetto massimo
+        const ceiling = Math.min(this.options.retry.maxDelayMs, this.options.retry.baseDelayMs * 2 ** (attempt - 1));
+        await new Promise(resolve => setTimeout(resolve, Math.random() * ceiling));
+      }
+    }
+  }
+
+  // Singolo tentativo: circuit breaker, rate limit, timeout e classificazione dell'errore
+  private async attemptRequest<T>(document: RequestDocument, variables?: Record<string, unknown>): Promise<T> {
+    this.circuitBreaker.assertCanRequest();
+    try {
+      await this.rateLimiter.acquire();
+    } catch (error) {
+      this.circuitBreaker.recordNeutral();
+      throw error;
+    }
+
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.options.requestTimeoutMs);
+    try {
+      const result = await this.client.request<T>({ document, variables, signal: controller.signal });
+      this.circuitBreaker.recordSuccess();
+      return result;
+    } catch (error) {
+      const classified = controller.signal.aborted ?
+        new RizeApiError(`Request timed out after ${this.options.requestTimeoutMs}ms`, { retryable: true }) :
+        classifyApiError(error);
+      if (classified instanceof RateLimitError) {
+        // 429 dal server: sospende tutte le richieste per il tempo indicato da Retry-After (o una finestra intera)
+        this.rateLimiter.pause(classified.retryAfterMs ?? this.options.rateLimiting.windowMs);
+        this.circuitBreaker.recordNeutral();
+      } else if (isRetryableError(classified)) {
+        this.circuitBreaker.recordFailure();
+      } else {
+        this.circuitBreaker.recordNeutral();
+      }
+      throw classified;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  getCircuitState(): { state: CircuitState; failures: number } {
+    return this.circuitBreaker.getState();
+  }
+
+  getCacheStats(): CacheStats {
+    return this.cache.getStats();
+  }
+
+  // Svuota la cache (tutta o un solo namespace) e restituisce il numero di voci rimosse
+  clearCache(scope: CacheScope = 'all'): number {
+    if (scope === 'all') {
+      const removed = this.cache.size();
+      this.cache.clear();
+      (['user', 'projects', 'summaries', 'sessions', 'analytics'] as const).forEach(namespace => this.emitChange({ namespace }));
+      return removed;
+    }
+    const removed = this.cache.deleteByPrefix(`${scope}:`);
+    this.emitChange({ namespace: scope });
+    return removed;
+  }
+
+  // Registra un listener per i cambiamenti dei dati; restituisce la funzione per rimuoverlo
+  onDataChanged(listener: (change: DataChange) => void): () => void {
+    this.changeListeners.add(listener);
+    return () => this.changeListeners.delete(listener);
+  }
+
+  private emitChange(change: DataChange | undefined): void {
+    if (change) {
+      this.changeListeners.forEach(listener => listener(change));
+    }
+  }
+
+  // TTL in base alla data più recente richiesta: lungo per giorni assestati, breve se include oggi o i giorni
+  // che Rize può ancora rielaborare
+  private rangeTtl(endDate: string): number {
+    return endDate.slice(0, 10) < this.firstUnsettledDay() ?
+      this.options.cache.pastDataTtl :
+      this.options.cache.todayTtl;
+  }
+
+  private firstUnsettledDay(): string {
+    return shiftDays(today(this.options.timeZone), -this.options.historySettleDays);
+  }
+
+  private invalidateProjects(): void {
+    this.cache.deleteByPrefix('projects:');
+    this.emitChange({ namespace: 'projects' });
+  }
+
+  private invalidateSessions(): void {
+    this.cache.deleteByPrefix('sessions:');
+    this.cache.deleteByPrefix('analytics:');
+    this.emitChange({ namespace: 'sessions' });
+    this.emitChange({ namespace: 'analytics' });
+  }
+
+  // Una time entry cambia i riepiloghi e le sessioni dei giorni che copre, anche se già conclusi:
+  // svuota le cache, segnala il cambiamento e fa riscaricare quei giorni dallo storico
+  private async invalidateTimeEntry(...entries: Array<{ startTime: string; endTime?: string }>): Promise<void> {
+    const days = entries.flatMap(entry => enumerateDays(
+      dayInZone(entry.startTime, this.options.timeZone),
+      dayInZone(entry.endTime ?? entry.startTime, this.options.timeZone)
+    ));
+    const sorted = Array.from(new Set(days)).sort();
+    this.cache.deleteByPrefix('summaries:');
+    this.cache.deleteByPrefix('sessions:');
+    this.cache.deleteByPrefix('analytics:');
+    if (sorted.length > 0) {
+      this.emitChange({ namespace: 'summaries', startDate: sorted[0], endDate: sorted[sorted.length - 1] });
+      this.emitChange({ namespace: 'sessions', startDate: sorted[0], endDate: sorted[sorted.length - 1] });
+    }
+    this.emitChange({ namespace: 'analytics' });
+    await this.history?.markStale(sorted);
+  }
+
+  // Divide un range in giorni assestati (serviti dallo storico) e giorni recenti, da historySettleDays
+  // giorni fa in poi (sempre dall'API)
+  private splitAtSettled(startDate: string, endDate: string): {
+    past?: { start: string; end: string };
+    live?: { start: string; end: string };
+  } {
+    const start = startDate.slice(0, 10);
+    const end = endDate.slice(0, 10);
+    const firstLive = this.firstUnsettledDay();
+    return {
+      past: start < firstLive ? { start, end: end < firstLive ? end : shiftDays(firstLive, -1) } : undefined,
+      live: end >= firstLive ? { start: start > firstLive ? start : firstLive, end } : undefined
+    };
+  }
+
+  // Scarica dall'API solo i giorni assestati non ancora presenti nello storico, a blocchi:
+  // ogni blocco viene salvato appena scaricato, così un errore a metà non fa perdere il lavoro fatto.
+  // Con force tutti i giorni del range vengono riscaricati e sostituiscono quelli salvati.
+  async syncHistory(startDate: string, endDate: string = today(this.options.timeZone), force: boolean = false): Promise<HistoryStats & { syncedDays: number }> {
+    if (!this.history) {
+      throw new ValidationError('The history store is disabled. Set HISTORY_DIR to enable it');
+    }
+    const { past } = this.splitAtSettled(startDate, endDate);
+    const missing = !past ? [] : force ? enumerateDays(past.start, past.end) : await this.history.missingDays(past.start, past.end);
+
+    for (const range of toContiguousRanges(missing)) {
+      for (const chunk of this.splitIntoWindows(range.start, range.end, HISTORY_SYNC_DAYS)) {
+        const summaries = await this.fetchSummaries(chunk.start, chunk.end);
+        const sessions = await this.fetchSessions(chunk.start, chunk.end);
+        const metrics = this.withSessionCounts(summaries, sessions);
+        const syncedAt = new Date().toISOString();
+        await this.history.saveDays(enumerateDays(chunk.start, chunk.end).map(date => ({
+          date,
+          metrics: metrics.find(metric => metric.date.slice(0, 10) === date) ?? null,
+          sessions: sessions.filter(session => this.localDay(session.startTime) === date),
+          syncedAt
+        })));
+      }
+    }
+
+    return { ...await this.history.getStats(), syncedDays: missing.length };
+  }
+
+  get timeZone(): string {
+    return this.options.timeZone;
+  }
+
+  get calendar(): CalendarSettings {
+    return { timeZone: this.options.timeZone, weekStartsOn: this.options.weekStartsOn };
+  }
+
+  get schedule(): WorkSchedule {
+    return this.options.schedule;
+  }
+
+  // Obiettivi dell'account: salvati in locale, non su Rize
+  get goals(): GoalStore {
+    return this.goalStore;
+  }
+
+  // Giorno (YYYY-MM-DD) di un timestamp dell'API nel fuso dell'utente, usato per assegnare le sessioni ai giorni dello storico
+  private localDay(timestamp: string): string {
+    try {
+      return dayInZone(timestamp, this.options.timeZone);
+    } catch {
+      return timestamp.slice(0, 10);
+    }
+  }
+
+  getRateLimitUsage(): RateLimitUsage {
+    return this.rateLimiter.getUsage();
+  }
+
   async getCurrentUser(): Promise<RizeUser> {
-    const cacheKey = 'current-user';
+    const cacheKey = 'user:current';
     const cached = this.cache.get<RizeUser>(cacheKey);
     if (cached) return cached;
     const query = gql`
@@ -32,7 +390,7 @@ export class RizeApiService {
         }
       }
     `;
-    const response: any = await this.client.request(query);
+    const response: any = await this.request(query);
     // Log strutturato per debug (solo se necessario)
     // console.log('API Response getCurrentUser:', JSON.stringify(response, null, 2));
     const user = response.currentUser;
@@ -45,16 +403,16 @@ export class RizeApiService {
     hasNextPage: boolean;
     nextCursor?: string;
   }> {
+    const cacheKey = `projects:page:${limit}:${cursor ?? ''}`;
+    const cached = this.cache.get<{ projects: RizeProject[]; hasNextPage: boolean; nextCursor?: string }>(cacheKey);
+    if (cached) return cached;
+
     const query = gql`
       query GetProjects($first: Int, $after: String) {
         projects(first: $first, after: $after) {
           edges {
             node {
-              id
-              name
-              color
-              createdAt
-              updatedAt
+              ...ProjectFields
             }
             cursor
           }
@@ -64,8 +422,9 @@ export class RizeApiService {
           }
         }
       }
+      ${PROJECT_FIELDS}
     `;
-    const response: any = await this.client.request(query, {
+    const response: any = await this.request(query, {
       first: limit,
       after: cursor
     });
@@ -74,11 +433,54 @@ export class RizeApiService {
     const projects = response.projects.edges.map((edge: any) => edge.node);
     const hasNextPage = response.projects.pageInfo.hasNextPage;
     const nextCursor = response.projects.pageInfo.endCursor;
-    return {
+    const page = {
       projects,
       hasNextPage,
       nextCursor
     };
+    this.cache.set(cacheKey, page);
+    return page;
+  }
+
+  // Percorre tutte le pagine di getProjects fino a esaurimento (con un limite di sicurezza)
+  async getAllProjects(): Promise<{ projects: RizeProject[]; truncated: boolean; nextCursor?: string }> {
+    const cached = this.cache.get<{ projects: RizeProject[]; truncated: boolean; nextCursor?: string }>(PROJECT_INDEX_CACHE_KEY);
+    if (cached) return cached;
+
+    const projects: RizeProject[] = [];
+    let cursor: string | undefined;
+    let hasNextPage = true;
+    let pages = 0;
+
+    while (hasNextPage && pages < MAX_PROJECT_PAGES) {
+      const page = await this.getProjects(PROJECT_PAGE_SIZE, cursor);
+      projects.push(...page.projects);
+      hasNextPage = page.hasNextPage;
+      cursor = page.nextCursor;
+      pages++;
+    }
+
+    const index = {
+      projects,
+      truncated: hasNextPage,
+      nextCursor: hasNextPage ? cursor : undefined
+    };
+    this.cache.set(PROJECT_INDEX_CACHE_KEY, index);
+    return index;
+  }
+
+  async searchProjects(
+    query: string,
+    includeArchived: boolean = false,
+    limit: number = 10
+  ): Promise<Array<{ project: RizeProject; score: number }>> {
+    const { projects } = await this.getAllProjects();
+    return projects
+      .filter(project => includeArchived || !project.isArchived)
+      .map(project => ({ project, score: fuzzyScore(query, project.name) }))
+      .filter(match => match.score > 0)
+      .sort((a, b) => b.score - a.score || a.project.name.localeCompare(b.project.name))
+      .slice(0, limit);
   }
 
   async createProject(name: string, description?: string): Promise<RizeProject> {
@@ -86,18 +488,13 @@ export class RizeApiService {
       mutation CreateProject($input: CreateProjectInput!) {
         createProject(input: $input) {
           project {
-            id
-            name
-            description
-            color
-            isArchived
-            createdAt
-            updatedAt
+            ...ProjectFields
           }
         }
       }
+      ${PROJECT_FIELDS}
     `;
-    const response: any = await this.client.request(mutation, {
+    const response: any = await this.request(mutation, {
       input: {
         args: {
           name,
@@ -107,199 +504,668 @@ export class RizeApiService {
     });
     // Log strutturato per debug (solo se necessario)
     // console.log('API Response createProject:', JSON.stringify(response, null, 2));
+    this.invalidateProjects();
     return response.createProject.project;
   }
 
 
-  async getSummaries(startDate: string, endDate: string): Promise<RizeProductivityMetrics[]> {
-    try {
-      const query = gql`
-        query GetSummaries($startDate: ISO8601Date!, $endDate: ISO8601Date!, $bucketSize: String!) {
-          summaries(startDate: $startDate, endDate: $endDate, bucketSize: $bucketSize, includeCategories: true) {
-            buckets {
-              date
-              focusTime
-              breakTime
-              meetingTime
-              trackedTime
-              categories {
-                category {
-                  name
-                  idle
-                  focus
-                  work
-                }
-                timeSpent
-              }
-            }
+  async getProject(id: string): Promise<RizeProject> {
+    const cacheKey = `projects:id:${id}`;
+    const cached = this.cache.get<RizeProject>(cacheKey);
+    if (cached) return cached;
+
+    const query = gql`
+      query GetProject($id: ID!) {
+        project(id: $id) {
+          ...ProjectFields
+        }
+      }
+      ${PROJECT_FIELDS}
+    `;
+    const response: any = await this.request(query, { id });
+    if (!response.project) {
+      throw new RizeApiError(`Project ${id} not found`);
+    }
+    this.cache.set(cacheKey, response.project);
+    return response.project;
+  }
+
+  async updateProject(id: string, changes: ProjectChanges): Promise<RizeProject> {
+    const mutation = gql`
+      mutation UpdateProject($input: UpdateProjectInput!) {
+        updateProject(input: $input) {
+          project {
+            ...ProjectFields
+          }
+        }
+      }
+      ${PROJECT_FIELDS}
+    `;
+    const response: any = await this.request(mutation, {
+      input: {
+        args: {
+          id,
+          ...changes
+        }
+      }
+    });
+    this.invalidateProjects();
+    return response.updateProject.project;
+  }
+
+  async archiveProject(id: string): Promise<RizeProject> {
+    return this.updateProject(id, { isArchived: true });
+  }
+
+  async unarchiveProject(id: string): Promise<RizeProject> {
+    return this.updateProject(id, { isArchived: false });
+  }
+
+  async deleteProject(id: string): Promise<RizeProject> {
+    const mutation = gql`
+      mutation DeleteProject($input: DeleteProjectInput!) {
+        deleteProject(input: $input) {
+          project {
+            ...ProjectFields
+          }
+        }
+      }
+      ${PROJECT_FIELDS}
+    `;
+    const response: any = await this.request(mutation, {
+      input: {
+        args: {
+          id
+        }
+      }
+    });
+    this.invalidateProjects();
+    return response.deleteProject.project;
+  }
+
+  // Il numero di sessioni di focus non è nei summaries: viene contato sulle sessioni degli stessi giorni.
+  // I giorni dello storico hanno già le loro; per gli altri si usano quelle passate dal chiamante e solo
+  // in mancanza viene fatta la query sessions. Con countSessions false il conteggio resta null.
+  async getSummaries(startDate: string, endDate: string, options: SummaryOptions = {}): Promise<RizeProductivityMetrics[]> {
+    const { past, live } = this.history ? this.splitAtSettled(startDate, endDate) : { past: undefined, live: { start: startDate, end: endDate } };
+    const metrics: RizeProductivityMetrics[] = [];
+    if (past && this.history) {
+      await this.syncHistory(past.start, past.end);
+      const days = await this.history.getDays(past.start, past.end);
+      days.forEach(day => day.metrics && metrics.push(this.metricsFromHistory(day.metrics, day.sessions)));
+    }
+    if (live) {
+      const fetched = await this.fetchSummaries(live.start, live.end);
+      if (options.countSessions === false) {
+        metrics.push(...fetched);
+      } else {
+        const sessions = options.sessions ?? await this.fetchSessions(live.start, live.end);
+        metrics.push(...this.withSessionCounts(fetched, sessions));
+      }
+    }
+    return metrics;
+  }
+
+  private withSessionCounts(metrics: RizeProductivityMetrics[], sessions: RizeFocusSession[]): RizeProductivityMetrics[] {
+    return metrics.map(metric => ({ ...metric, focusSessionsCount: this.countFocusSessions(sessions, metric.date.slice(0, 10)) }));
+  }
+
+  // Sessioni di focus iniziate in un giorno (nel fuso dell'utente); una sessione a cavallo della mezzanotte conta nel giorno di inizio
+  private countFocusSessions(sessions: RizeFocusSession[], date: string): number {
+    return sessions.filter(session => session.category === 'Focus' && this.localDay(session.startTime) === date).length;
+  }
+
+  // I giorni salvati prima dell'introduzione di meetingTime avevano il meeting time in distractionTime e un
+  // conteggio di sessioni stimato: vengono corretti con le sessioni salvate. Il punteggio viene ricalcolato
+  // con i pesi correnti quando trackedTime è disponibile, altrimenti resta quello salvato (solo focus).
+  private metricsFromHistory(stored: RizeProductivityMetrics, sessions: RizeFocusSession[]): RizeProductivityMetrics {
+    const metrics: RizeProductivityMetrics = stored.meetingTime === undefined ? {
+      ...stored,
+      meetingTime: stored.distractionTime ?? 0,
+      distractionTime: null,
+      contextSwitches: null,
+      focusSessionsCount: this.countFocusSessions(sessions, stored.date.slice(0, 10))
+    } : stored;
+    const { trackedTime } = metrics;
+    return trackedTime === undefined ? metrics :
+      { ...metrics, productivityScore: productivityScore({ ...metrics, trackedTime }, this.options.scoreWeights) };
+  }
+
+  private async fetchSummaries(startDate: string, endDate: string): Promise<RizeProductivityMetrics[]> {
+    const cacheKey = `summaries:${startDate}:${endDate}`;
+    const cached = this.cache.get<RizeProductivityMetrics[]>(cacheKey);
+    if (cached) return cached;
+
+    const query = gql`
+      query GetSummaries($startDate: ISO8601Date!, $endDate: ISO8601Date!, $bucketSize: String!) {
+        summaries(startDate: $startDate, endDate: $endDate, bucketSize: $bucketSize, includeCategories: true) {
+          buckets {
+            date
             focusTime
             breakTime
             meetingTime
             trackedTime
-            workHours
+            categories {
+              category {
+                name
+                idle
+                focus
+                work
+              }
+              timeSpent
+            }
           }
+          focusTime
+          breakTime
+          meetingTime
+          trackedTime
+          workHours
+        }
+      }
+    `;
+
+    const response: any = await this.request(query, {
+      startDate,
+      endDate,
+      bucketSize: "day"
+    });
+
+    // Mappa i dati dell'API ai nostri tipi
+    // NOTA: I valori dell'API sono in SECONDI, convertiamo in minuti
+    const buckets = response.summaries?.buckets || [];
+    const metrics: RizeProductivityMetrics[] = buckets.map((bucket: any) => {
+      // Trova la categoria con più tempo
+      let topCategory: RizeProductivityMetrics['topCategory'] = { name: 'Work', timeSpent: 0 };
+      if (bucket.categories && bucket.categories.length > 0) {
+        const topCat = bucket.categories.reduce((prev: any, curr: any) =>
+          curr.timeSpent > prev.timeSpent ? curr : prev
+        );
+        topCategory = {
+          name: topCat.category.name,
+          timeSpent: Math.floor(topCat.timeSpent / 60),
+          focus: topCat.category.focus
+        };
+      }
+
+      const dayMetrics: RizeProductivityMetrics & { trackedTime: number } = {
+        date: bucket.date,
+        totalFocusTime: Math.floor((bucket.focusTime || 0) / 60), // Converti secondi in minuti
+        productivityScore: 0, // Calcolato sotto con i pesi configurati
+        focusSessionsCount: null, // Contato da getSummaries se richiesto
+        topCategory,
+        breakTime: Math.floor((bucket.breakTime || 0) / 60), // Converti secondi in minuti
+        meetingTime: Math.floor((bucket.meetingTime || 0) / 60),
+        trackedTime: Math.floor((bucket.trackedTime || 0) / 60),
+        distractionTime: null, // Non fornito dall'API
+        contextSwitches: null, // Non fornito dall'API
+        categories: (bucket.categories || []).map((entry: any) => ({
+          name: entry.category.name,
+          timeSpent: Math.floor(entry.timeSpent / 60), // Converti secondi in minuti
+          focus: entry.category.focus === true,
+          work: entry.category.work === true,
+          idle: entry.category.idle === true
+        }))
+      };
+      return { ...dayMetrics, productivityScore: productivityScore(dayMetrics, this.options.scoreWeights) };
+    });
+
+    this.cache.set(cacheKey, metrics, this.rangeTtl(endDate));
+    return metrics;
+  }
+
+  async getCategoryBreakdown(startDate: string, endDate: string): Promise<RizeCategoryBreakdown> {
+    const metrics = await this.getSummaries(startDate, endDate, { countSessions: false });
+    return buildCategoryBreakdown(startDate, endDate, metrics);
+  }
+
+  async getFocusSessions(
+    startDate: string,
+    endDate: string = startDate,
+    filters: FocusSessionFilters = {}
+  ): Promise<RizeFocusSession[]> {
+    let sessions: RizeFocusSession[];
+    if (this.history) {
+      const { past, live } = this.splitAtSettled(startDate, endDate);
+      sessions = [];
+      if (past) {
+        await this.syncHistory(past.start, past.end);
+        const days = await this.history.getDays(past.start, past.end);
+        days.forEach(day => sessions.push(...day.sessions));
+      }
+      if (live) {
+        sessions.push(...await this.fetchSessions(live.start, live.end));
+      }
+    } else {
+      sessions = await this.fetchSessions(startDate, endDate);
+    }
+
+    // Una sessione a cavallo della mezzanotte può arrivare sia dallo storico sia dall'API: deduplica per id
+    const byId = new Map(sessions.map(session => [session.id, session]));
+    return Array.from(byId.values())
+      .filter(session => this.matchesSessionFilters(session, filters))
+      .sort((a, b) => new Date(a.startTime).getTime() - new Date(b.startTime).getTime());
+  }
+
+  private async fetchSessions(startDate: string, endDate: string): Promise<RizeFocusSession[]> {
+    // Range lunghi vengono spezzati in finestre settimanali per non sovraccaricare la query
+    const windows = this.splitIntoWindows(startDate, endDate, SESSION_WINDOW_DAYS);
+    const byId = new Map<string, RizeFocusSession>();
+
+    for (const window of windows) {
+      const sessions = await this.fetchSessionsWindow(window.start, window.end);
+      // Le sessioni a cavallo di due finestre vengono restituite due volte: deduplica per id
+      sessions.forEach(session => byId.set(session.id, session));
+    }
+
+    return Array.from(byId.values());
+  }
+
+  private async fetchSessionsWindow(startDate: string, endDate: string): Promise<RizeFocusSession[]> {
+    const cacheKey = `sessions:${startDate}:${endDate}`;
+    const cached = this.cache.get<RizeFocusSession[]>(cacheKey);
+    if (cached) return cached;
+
+    const query = gql`
+      query GetSessions($startTime: ISO8601DateTime!, $endTime: ISO8601DateTime!) {
+        sessions(startTime: $startTime, endTime: $endTime, statuses: ["active"]) {
+          ...SessionFields
         }
-      `;
+      }
+      ${SESSION_FIELDS}
+    `;
 
-      const response: any = await this.client.request(query, {
-        startDate,
-        endDate,
-        bucketSize: "day"
+    // Dall'inizio della prima alla fine dell'ultima giornata della finestra, nel fuso dell'utente
+    const response: any = await this.request(query, dayBoundsInZone(startDate, endDate, this.options.timeZone));
+
+    // Log strutturato per debug (solo se necessario)
+    // console.log('API Response getFocusSessions:', JSON.stringify(response, null, 2));
+
+    // Se ci sono sessioni, mappale ai nostri tipi (calcolando duration)
+    const sessions = response.sessions || [];
+    const mapped: RizeFocusSession[] = sessions.map((session: any) => this.mapSession(session));
+    this.cache.set(cacheKey, mapped, this.rangeTtl(endDate));
+    return mapped;
+  }
+
+  private mapSession(session: any, isActive: boolean = false): RizeFocusSession {
+    return {
+      id: session.id,
+      userId: '', // Non disponibile nell'API
+      projectId: session.projects?.[0]?.id,
+      startTime: session.startTime,
+      endTime: session.endTime,
+      duration: session.endTime && session.startTime ?
+        Math.floor((new Date(session.endTime).getTime() - new Date(session.startTime).getTime()) / (1000 * 60)) : 0,
+      focusScore: 0, // Non disponibile nell'API
+      category: session.type ? session.type.charAt(0).toUpperCase() + session.type.slice(1) : 'Unknown',
+      application: 'Unknown', // Non disponibile nell'API
+      title: session.title,
+      isActive
+    };
+  }
+
+  // Il filtro categoria lavora sul tipo di sessione: focus e meeting sono "work", break è "personal"
+  private matchesSessionFilters(session: RizeFocusSession, filters: FocusSessionFilters): boolean {
+    if (filters.projectId && session.projectId !== filters.projectId) {
+      return false;
+    }
+    if (filters.category && filters.category !== 'all') {
+      const isPersonal = session.category.toLowerCase() === 'break';
+      if (filters.category === 'personal' ? !isPersonal : isPersonal) {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  // Divide [startDate, endDate] in finestre consecutive di al massimo `days` giorni (estremi inclusi)
+  private splitIntoWindows(startDate: string, endDate: string, days: number): Array<{ start: string; end: string }> {
+    const windows: Array<{ start: string; end: string }> = [];
+    const last = parseISO(endDate);
+    let cursor = parseISO(startDate);
+
+    while (cursor <= last) {
+      const windowEnd = minDate([addDays(cursor, days - 1), last]);
+      windows.push({
+        start: format(cursor, 'yyyy-MM-dd'),
+        end: format(windowEnd, 'yyyy-MM-dd')
       });
+      cursor = addDays(windowEnd, 1);
+    }
+
+    return windows;
+  }
+
+  // Sessione in corso, con tempo trascorso e rimanente rispetto alla fine pianificata
+  async getCurrentSession(): Promise<RizeLiveSession | null> {
+    const query = gql`
+      query CurrentSession {
+        currentSession {
+          ...SessionFields
+        }
+      }
+      ${SESSION_FIELDS}
+    `;
+    const response: any = await this.request(query);
+    return response.currentSession ? this.toLiveSession(response.currentSession) : null;
+  }
 
-      // Mappa i dati dell'API ai nostri tipi
-      // NOTA: I valori dell'API sono in SECONDI, convertiamo in minuti
-      const buckets = response.summaries?.buckets || [];
-      return buckets.map((bucket: any) => {
-        // Trova la categoria con più tempo
-        let topCategory: any = 'Work';
-        let focusSessionsCount = 0;
-
-        if (bucket.categories && bucket.categories.length > 0) {
-          const topCat = bucket.categories.reduce((prev: any, curr: any) =>
-            curr.timeSpent > prev.timeSpent ? curr : prev
-          );
-          topCategory = {
-            name: topCat.category.name,
-            timeSpent: Math.floor(topCat.timeSpent / 60),
-            focus: topCat.category.focus
-          };
-
-          // Se la top category ha focus true, consideriamo che c'è stata almeno una sessione di focus
-          if (topCat.category.focus === true) {
-            // Possiamo stimare il numero di sessioni di focus come 1 per ora di topCategory.timeSpent, oppure semplicemente 1 se > 0
-            focusSessionsCount = topCat.timeSpent > 0 ? 1 : 0;
-          } else {
-            focusSessionsCount = 0;
+  async startSession(input: StartSessionInput): Promise<RizeLiveSession> {
+    const active = await this.getCurrentSession();
+    if (active) {
+      throw new ValidationError(
+        `A ${active.category.toLowerCase()} session${active.title ? ` ("${active.title}")` : ''} is already running. Stop it before starting a new one`,
+        { sessionId: active.id }
+      );
+    }
+    const mutation = gql`
+      mutation StartSession($input: StartSessionInput!) {
+        startSession(input: $input) {
+          session {
+            ...SessionFields
           }
         }
+      }
+      ${SESSION_FIELDS}
+    `;
+    const response: any = await this.request(mutation, {
+      input: {
+        args: {
+          type: input.type,
+          title: input.title,
+          length: input.duration * 60, // L'API ragiona in secondi
+          projectIds: input.projectId ? [input.projectId] : undefined
+        }
+      }
+    });
+    this.invalidateSessions();
+    return this.toLiveSession(response.startSession.session);
+  }
 
-        return {
-          date: bucket.date,
-          totalFocusTime: Math.floor((bucket.focusTime || 0) / 60), // Converti secondi in minuti
-          productivityScore: bucket.focusTime && bucket.trackedTime ?
-            Math.round((bucket.focusTime / bucket.trackedTime) * 100) : 0,
-          focusSessionsCount, // Basato su topCategory.focus
-          topCategory,
-          breakTime: Math.floor((bucket.breakTime || 0) / 60), // Converti secondi in minuti
-          distractionTime: Math.floor((bucket.meetingTime || 0) / 60), // Usiamo meetingTime come distraction
-          contextSwitches: 0 // Non disponibile
-        };
-      });
-    } catch (error) {
-      return [];
+  async extendCurrentSession(minutes: number): Promise<RizeLiveSession> {
+    const mutation = gql`
+      mutation ExtendCurrentSession($input: ExtendCurrentSessionInput!) {
+        extendCurrentSession(input: $input) {
+          session {
+            ...SessionFields
+          }
+        }
+      }
+      ${SESSION_FIELDS}
+    `;
+    const response: any = await this.request(mutation, {
+      input: {
+        args: {
+          length: minutes * 60
+        }
+      }
+    });
+    if (!response.extendCurrentSession?.session) {
+      throw new ValidationError('No session is currently running');
     }
+    this.invalidateSessions();
+    return this.toLiveSession(response.extendCurrentSession.session);
   }
 
-  async getFocusSessions(startDate: string): Promise<RizeFocusSession[]> {
-    try {
-      const query = gql`
-        query GetSessions($startTime: ISO8601DateTime!, $endTime: ISO8601DateTime!) {
-          sessions(startTime: $startTime, endTime: $endTime, statuses: ["active"]) {
-            id
-            startTime
-            endTime
-            title
+  async stopSession(): Promise<RizeFocusSession> {
+    const mutation = gql`
+      mutation StopSession($input: StopSessionInput!) {
+        stopSession(input: $input) {
+          session {
+            ...SessionFields
           }
         }
-      `;
+      }
+      ${SESSION_FIELDS}
+    `;
+    const response: any = await this.request(mutation, { input: {} });
+    if (!response.stopSession?.session) {
+      throw new ValidationError('No session is currently running');
+    }
+    this.invalidateSessions();
+    return this.mapSession(response.stopSession.session);
+  }
 
-      // Calcola endTime come fine della giornata
-      const endDateTime = new Date(startDate);
-      endDateTime.setHours(23, 59, 59, 999);
+  private toLiveSession(session: any, now: Date = new Date()): RizeLiveSession {
+    const mapped = this.mapSession(session, true);
+    const start = new Date(session.startTime).getTime();
+    const plannedEnd = session.endTime ? new Date(session.endTime).getTime() : undefined;
+    return {
+      ...mapped,
+      elapsedMinutes: Math.max(0, Math.floor((now.getTime() - start) / (1000 * 60))),
+      remainingMinutes: plannedEnd !== undefined ? Math.max(0, Math.ceil((plannedEnd - now.getTime()) / (1000 * 60))) : null
+    };
+  }
 
-      const response: any = await this.client.request(query, {
-        startTime: startDate,
-        endTime: endDateTime.toISOString()
-      });
+  async getTimeEntries(startDate: string, endDate: string = startDate, projectId?: string): Promise<RizeTimeEntry[]> {
+    const query = gql`
+      query GetTimeEntries($startTime: ISO8601DateTime!, $endTime: ISO8601DateTime!) {
+        projectTimeEntries(startTime: $startTime, endTime: $endTime) {
+          ...TimeEntryFields
+        }
+      }
+      ${TIME_ENTRY_FIELDS}
+    `;
 
-      // Log strutturato per debug (solo se necessario)
-      // console.log('API Response getFocusSessions:', JSON.stringify(response, null, 2));
-
-      // Se ci sono sessioni, mappale ai nostri tipi (calcolando duration)
-      const sessions = response.sessions || [];
-      return sessions.map((session: any) => ({
-        id: session.id,
-        userId: '', // Non disponibile nell'API
-        projectId: undefined, // Non disponibile nell'API
-        startTime: session.startTime,
-        endTime: session.endTime,
-        duration: session.endTime && session.startTime ?
-          Math.floor((new Date(session.endTime).getTime() - new Date(session.startTime).getTime()) / (1000 * 60)) : 0,
-        focusScore: 0, // Non disponibile nell'API
-        category: 'Unknown', // Non disponibile nell'API
-        application: 'Unknown', // Non disponibile nell'API
-        title: session.title,
-        isActive: false // Non disponibile nell'API
-      }));
-    } catch (error) {
-      return [];
+    // Accetta sia date (YYYY-MM-DD, giornate intere nel fuso dell'utente) sia date-time ISO
+    const response: any = await this.request(query, {
+      startTime: isDateOnly(startDate) ? dayBoundsInZone(startDate, startDate, this.options.timeZone).startTime : startDate,
+      endTime: isDateOnly(endDate) ? dayBoundsInZone(endDate, endDate, this.options.timeZone).endTime : endDate
+    });
+    const entries: RizeTimeEntry[] = (response.projectTimeEntries || []).map((entry: any) => this.mapTimeEntry(entry));
+    return entries
+      .filter(entry => !projectId || entry.projectId === projectId)
+      .sort((a, b) => new Date(a.startTime).getTime() - new Date(b.startTime).getTime());
+  }
+
+  async createTimeEntry(input: TimeEntryInput, allowOverlap: boolean = false): Promise<RizeTimeEntry> {
+    if (!allowOverlap) {
+      await this.assertNoOverlap(input.startTime, input.endTime);
+    }
+    const mutation = gql`
+      mutation CreateTimeEntry($input: CreateProjectTimeEntryInput!) {
+        createProjectTimeEntry(input: $input) {
+          projectTimeEntry {
+            ...TimeEntryFields
+          }
+        }
+      }
+      ${TIME_ENTRY_FIELDS}
+    `;
+    const response: any = await this.request(mutation, {
+      input: {
+        args: input
+      }
+    });
+    const entry = this.mapTimeEntry(response.createProjectTimeEntry.projectTimeEntry);
+    await this.invalidateTimeEntry(input, entry);
+    return entry;
+  }
+
+  async updateTimeEntry(id: string, changes: Partial<TimeEntryInput>, allowOverlap: boolean = false): Promise<RizeTimeEntry> {
+    if (!allowOverlap && changes.startTime && changes.endTime) {
+      await this.assertNoOverlap(changes.startTime, changes.endTime, id);
+    }
+    // Spostando la entry cambiano anche i giorni da cui viene tolta: servono i suoi orari precedenti.
+    // Se non compaiono nella finestra di ricerca, tutto lo storico viene segnato come superato.
+    const previous = this.history && changes.startTime ? await this.findTimeEntry(id, changes.startTime) : undefined;
+    const mutation = gql`
+      mutation UpdateTimeEntry($input: UpdateProjectTimeEntryInput!) {
+        updateProjectTimeEntry(input: $input) {
+          projectTimeEntry {
+            ...TimeEntryFields
+          }
+        }
+      }
+      ${TIME_ENTRY_FIELDS}
+    `;
+    const response: any = await this.request(mutation, {
+      input: {
+        args: {
+          id,
+          ...changes
+        }
+      }
+    });
+    const entry = this.mapTimeEntry(response.updateProjectTimeEntry.projectTimeEntry);
+    if (this.history && changes.startTime && !previous) {
+      const stats = await this.history.getStats();
+      if (stats.firstDate && stats.lastDate) {
+        await this.history.markStale(enumerateDays(stats.firstDate, stats.lastDate));
+      }
+    }
+    await this.invalidateTimeEntry(...(previous ? [previous, entry] : [entry]));
+    return entry;
+  }
+
+  private async findTimeEntry(id: string, around: string): Promise<RizeTimeEntry | undefined> {
+    const day = dayInZone(around, this.options.timeZone);
+    const entries = await this.getTimeEntries(shiftDays(day, -TIME_ENTRY_LOOKUP_DAYS), shiftDays(day, TIME_ENTRY_LOOKUP_DAYS));
+    return entries.find(entry => entry.id === id);
+  }
+
+  async deleteTimeEntry(id: string): Promise<RizeTimeEntry> {
+    const mutation = gql`
+      mutation DeleteTimeEntry($input: DeleteProjectTimeEntryInput!) {
+        deleteProjectTimeEntry(input: $input) {
+          projectTimeEntry {
+            ...TimeEntryFields
+          }
+        }
+      }
+      ${TIME_ENTRY_FIELDS}
+    `;
+    const response: any = await this.request(mutation, {
+      input: {
+        args: {
+          id
+        }
+      }
+    });
+    const entry = this.mapTimeEntry(response.deleteProjectTimeEntry.projectTimeEntry);
+    await this.invalidateTimeEntry(entry);
+    return entry;
+  }
+
+  // Rifiuta intervalli che si sovrappongono a time entry esistenti (escludendo quella in modifica)
+  private async assertNoOverlap(startTime: string, endTime: string, excludeId?: string): Promise<void> {
+    const start = new Date(startTime).getTime();
+    const end = new Date(endTime).getTime();
+    const existing = await this.getTimeEntries(startTime, endTime);
+    const overlapping = existing.filter(entry =>
+      entry.id !== excludeId &&
+      entry.endTime !== undefined &&
+      new Date(entry.startTime).getTime() < end &&
+      new Date(entry.endTime).getTime() > start
+    );
+    if (overlapping.length > 0) {
+      throw new ValidationError(
+        `Time entry overlaps ${overlapping.length} existing entr${overlapping.length > 1 ? 'ies' : 'y'} ` +
+        `(${overlapping.map(entry => `${entry.id}: ${entry.startTime} - ${entry.endTime}`).join(', ')}). ` +
+        'Adjust the times or pass allowOverlap: true',
+        { overlapping: overlapping.map(entry => entry.id) }
+      );
     }
   }
 
+  private mapTimeEntry(entry: any): RizeTimeEntry {
+    return {
+      id: entry.id,
+      userId: '', // Non disponibile nell'API
+      projectId: entry.project?.id,
+      startTime: entry.startTime,
+      endTime: entry.endTime || undefined,
+      duration: entry.endTime && entry.startTime ?
+        Math.floor((new Date(entry.endTime).getTime() - new Date(entry.startTime).getTime()) / (1000 * 60)) : 0,
+      description: entry.description || undefined,
+      category: entry.project?.name || 'Unassigned',
+      tags: entry.tags || [],
+      isManual: entry.source ? entry.source === 'manual' : true
+    };
+  }
+
   async getAnalytics(
     timeframe: 'day' | 'week' | 'month',
-    includeInsights: boolean = true
+    includeInsights: boolean = true,
+    workingDaysOnly: boolean = false
   ): Promise<RizeAnalytics> {
-    const cacheKey = `analytics-${timeframe}-${includeInsights}`;
+    const cacheKey = `analytics:${timeframe}:${includeInsights}:${workingDaysOnly}`;
     const cached = this.cache.get<RizeAnalytics>(cacheKey);
     if (cached) return cached;
 
-    try {
-      // Calcola le date basandosi sul timeframe
-      const now = new Date();
-      let startDate: string, endDate: string;
-
-      switch (timeframe) {
-        case 'day':
-          startDate = new Date(now.getFullYear(), now.getMonth(), now.getDate()).toISOString().split('T')[0];
-          endDate = new Date(now.getFullYear(), now.getMonth(), now.getDate()).toISOString().split('T')[0];
-          break;
-        case 'week':
-          const weekStart = new Date(now);
-          weekStart.setDate(now.getDate() - now.getDay());
-          startDate = weekStart.toISOString().split('T')[0];
-          endDate = now.toISOString().split('T')[0];
-          break;
-        case 'month':
-          const monthStart = new Date(now.getFullYear(), now.getMonth(), 1);
-          const monthEnd = new Date(now.getFullYear(), now.getMonth() + 1, 0);
-          startDate = monthStart.toISOString().split('T')[0];
-          endDate = monthEnd.toISOString().split('T')[0];
-          break;
-      }
-
-      // Usa getSummaries per ottenere i dati (stessa API, meno duplicazioni)
-      const metrics = await this.getSummaries(startDate, endDate);
-
-      // Costruisci l'oggetto analytics
-      const analytics: RizeAnalytics = {
+    // Periodo corrente (fino a oggi) e periodo precedente equivalente per il confronto
+    const { current, previous } = getComparisonPeriods(timeframe, this.calendar);
+
+    // Usa getSummaries per ottenere i dati (stessa API, meno duplicazioni)
+    const schedule = this.options.schedule;
+    // Le sessioni del periodo corrente servono sia al conteggio giornaliero sia agli insight: lette una volta
+    const currentSessions = await this.getFocusSessions(current.startDate, current.endDate);
+    let metrics = await this.getSummaries(current.startDate, current.endDate, { sessions: currentSessions });
+    let previousMetrics = await this.getSummaries(previous.startDate, previous.endDate, { countSessions: false });
+    // Weekend e festività esclusi: non pesano su totali, medie e insight
+    if (workingDaysOnly) {
+      metrics = onWorkingDays(metrics, schedule);
+      previousMetrics = onWorkingDays(previousMetrics, schedule);
+    }
+
+    const currentPeriod = summarizePeriod(current, metrics, schedule);
+    const previousPeriod = summarizePeriod(previous, previousMetrics, schedule);
+    const focusTimeChange = percentChange(currentPeriod.totalFocusTime, previousPeriod.totalFocusTime);
+
+    // Gli insight vengono calcolati localmente da bucket e sessioni del periodo corrente
+    let insights: RizeInsight[] = [];
+    if (includeInsights) {
+      let sessions = currentSessions;
+      if (workingDaysOnly) {
+        sessions = sessions.filter(session => isWorkingDay(this.localDay(session.startTime), schedule));
+      }
+      insights = this.insights.generate({
         timeframe,
         metrics,
-        insights: [], // Per ora vuoto, da implementare se disponibile
-        trends: {
-          focusTime: metrics.reduce((sum: number, m: RizeProductivityMetrics) => sum + m.totalFocusTime, 0),
-          productivityScore: metrics.length > 0 ? metrics.reduce((sum: number, m: RizeProductivityMetrics) => sum + m.productivityScore, 0) / metrics.length : 0,
-          consistency: 0 // Da calcolare se necessario
-        }
-      };
+        sessions,
+        focusTimeChange,
+        periods: { current: currentPeriod, previous: previousPeriod }
+      });
+    }
 
-      this.cache.set(cacheKey, analytics);
-      return analytics;
-    } catch (error) {
-      const analytics: RizeAnalytics = {
-        timeframe,
-        metrics: [],
-        insights: [],
-        trends: {
-          focusTime: 0,
-          productivityScore: 0,
-          consistency: 0
-        }
-      };
+    const consistency = computeConsistency(current, metrics, this.options.dailyFocusTarget, schedule);
 
-      this.cache.set(cacheKey, analytics);
-      return analytics;
-    }
+    // Costruisci l'oggetto analytics
+    const analytics: RizeAnalytics = {
+      timeframe,
+      metrics,
+      insights,
+      trends: {
+        focusTime: focusTimeChange,
+        productivityScore: percentChange(currentPeriod.averageProductivityScore, previousPeriod.averageProductivityScore),
+        consistency: consistency.share,
+        consistencyBasis: consistency.basis,
+        dailyFocusTarget: this.options.dailyFocusTarget
+      },
+      periods: {
+        current: currentPeriod,
+        previous: previousPeriod
+      }
+    };
+
+    // Il periodo corrente include sempre oggi
+    this.cache.set(cacheKey, analytics, this.options.cache.todayTtl);
+    return analytics;
+  }
+}
+
+// Chiave di cache -> cambiamento: "summaries:2025-09-01:2025-09-07" copre quel range di date
+function changeForCacheKey(key: string): DataChange | undefined {
+  const [namespace, ...rest] = key.split(':');
+  switch (namespace) {
+    case 'user':
+    case 'projects':
+    case 'analytics':
+      return { namespace };
+    case 'summaries':
+    case 'sessions':
+      return { namespace, startDate: rest[0], endDate: rest[1] };
+    default:
+      return undefined;
   }
 }
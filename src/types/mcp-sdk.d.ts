@@ -1,2 +1,5 @@
 declare module '@modelcontextprotocol/sdk/server/mcp.js';
 declare module '@modelcontextprotocol/sdk/server/stdio.js';
+declare module '@modelcontextprotocol/sdk/server/streamableHttp.js';
+declare module '@modelcontextprotocol/sdk/server/sse.js';
+declare module '@modelcontextprotocol/sdk/types.js';
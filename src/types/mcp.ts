@@ -0,0 +1,358 @@
+import { z } from 'zod';
+
+// Schemi di output per lo structuredContent MCP. Ricalcano le interfacce di ./rize.ts
+// così gli agenti lavorano sugli stessi numeri mostrati nel testo.
+
+export const UserOutputSchema = z.object({
+  email: z.string(),
+  name: z.string().nullish()
+});
+
+export const ProjectOutputSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  description: z.string().nullish(),
+  color: z.string().nullish(),
+  isArchived: z.boolean(),
+  createdAt: z.string().nullish(),
+  updatedAt: z.string().nullish()
+});
+
+export const FocusSessionOutputSchema = z.object({
+  id: z.string(),
+  userId: z.string(),
+  projectId: z.string().nullish(),
+  startTime: z.string(),
+  endTime: z.string().nullish(),
+  duration: z.number().nullish().describe('Duration in minutes'),
+  focusScore: z.number().nullish(),
+  category: z.string(),
+  application: z.string().nullish(),
+  title: z.string().nullish(),
+  isActive: z.boolean()
+});
+
+export const LiveSessionOutputSchema = FocusSessionOutputSchema.extend({
+  elapsedMinutes: z.number(),
+  remainingMinutes: z.number().nullable().describe('Minutes until the planned end, null when open-ended')
+});
+
+export const TimeEntryOutputSchema = z.object({
+  id: z.string(),
+  userId: z.string(),
+  projectId: z.string().nullish(),
+  startTime: z.string(),
+  endTime: z.string().nullish(),
+  duration: z.number().describe('Duration in minutes'),
+  description: z.string().nullish(),
+  category: z.string(),
+  tags: z.array(z.string()).nullish(),
+  isManual: z.boolean()
+});
+
+export const CategoryTimeOutputSchema = z.object({
+  name: z.string(),
+  timeSpent: z.number().describe('Time in minutes'),
+  focus: z.boolean(),
+  work: z.boolean(),
+  idle: z.boolean()
+});
+
+export const CategoryShareOutputSchema = CategoryTimeOutputSchema.extend({
+  percentage: z.number().describe('Share of total categorized time (0-100)')
+});
+
+export const CategoryBreakdownOutputSchema = z.object({
+  startDate: z.string(),
+  endDate: z.string(),
+  totalTime: z.number().describe('Total categorized time in minutes'),
+  categories: z.array(CategoryShareOutputSchema),
+  days: z.array(z.object({
+    date: z.string(),
+    totalTime: z.number(),
+    categories: z.array(CategoryShareOutputSchema)
+  }))
+});
+
+export const ProductivityMetricsOutputSchema = z.object({
+  date: z.string(),
+  totalFocusTime: z.number().describe('Focus time in minutes'),
+  productivityScore: z.number().describe('0-100: weighted focus, meeting, break and idle time as a share of tracked time'),
+  focusSessionsCount: z.number().nullable().describe('Focus sessions started on the day; null when they were not counted'),
+  topCategory: z.object({
+    name: z.string(),
+    timeSpent: z.number().describe('Time in minutes'),
+    focus: z.boolean().optional()
+  }),
+  breakTime: z.number().describe('Break time in minutes'),
+  meetingTime: z.number().describe('Meeting time in minutes'),
+  trackedTime: z.number().optional().describe('Tracked time in minutes'),
+  distractionTime: z.number().nullable().describe('Not provided by the Rize API: always null'),
+  contextSwitches: z.number().nullable().describe('Not provided by the Rize API: always null'),
+  categories: z.array(CategoryTimeOutputSchema)
+});
+
+export const InsightOutputSchema = z.object({
+  id: z.string(),
+  type: z.enum(['recommendation', 'observation', 'achievement']),
+  title: z.string(),
+  description: z.string(),
+  priority: z.enum(['low', 'medium', 'high']),
+  category: z.string(),
+  timestamp: z.string(),
+  metadata: z.record(z.any()).optional()
+});
+
+export const AnalyticsPeriodOutputSchema = z.object({
+  startDate: z.string(),
+  endDate: z.string(),
+  totalFocusTime: z.number().describe('Focus time in minutes'),
+  averageProductivityScore: z.number(),
+  activeDays: z.number(),
+  workingDays: z.number().describe('Working days in the period, weekends and holidays excluded'),
+  averageFocusPerWorkingDay: z.number().describe('Focus minutes on working days per working day'),
+  nonWorkingFocusTime: z.number().describe('Focus minutes on weekends and holidays'),
+  workingTimeFocusShare: z.number().describe('Share (0-1) of scheduled working hours spent in focus')
+});
+
+export const AnalyticsOutputSchema = z.object({
+  timeframe: z.string(),
+  metrics: z.array(ProductivityMetricsOutputSchema),
+  insights: z.array(InsightOutputSchema),
+  trends: z.object({
+    focusTime: z.number().nullable().describe('Change vs previous period as a ratio (0.1 = +10%)'),
+    productivityScore: z.number().nullable().describe('Change vs previous period as a ratio'),
+    consistency: z.number().describe('Share (0-1) of days reaching the daily focus target'),
+    consistencyBasis: z.enum(['working_days', 'all_days']).describe('Days counted: the working days, or every day when the period has none'),
+    dailyFocusTarget: z.number().describe('Daily focus target in minutes')
+  }),
+  periods: z.object({
+    current: AnalyticsPeriodOutputSchema,
+    previous: AnalyticsPeriodOutputSchema
+  })
+});
+
+const DistributionOutputSchema = z.object({
+  min: z.number(),
+  max: z.number(),
+  mean: z.number(),
+  median: z.number(),
+  standardDeviation: z.number()
+});
+
+export const TeamReportOutputSchema = z.object({
+  startDate: z.string(),
+  endDate: z.string(),
+  privacy: z.boolean().describe('When true only aggregates are reported'),
+  memberCount: z.number().describe('Members whose data is included'),
+  totals: z.object({
+    focusTime: z.number().describe('Minutes'),
+    meetingTime: z.number().describe('Minutes'),
+    breakTime: z.number().describe('Minutes')
+  }),
+  distribution: z.object({
+    focusTime: DistributionOutputSchema,
+    meetingTime: DistributionOutputSchema,
+    breakTime: DistributionOutputSchema
+  }).describe('Per-member statistics, in minutes'),
+  members: z.array(z.object({
+    name: z.string(),
+    focusTime: z.number(),
+    meetingTime: z.number(),
+    breakTime: z.number(),
+    activeDays: z.number(),
+    averageDailyFocus: z.number().describe('Focus minutes per active day'),
+    focusShare: z.number().describe("Share (0-1) of the team's focus time"),
+    focusVsTeamAverage: z.number().nullable().describe('Ratio vs the team mean, e.g. 0.25 = 25% above')
+  })).optional(),
+  unavailableCount: z.number().describe('Members whose data could not be fetched'),
+  unavailableMembers: z.array(z.string()).optional()
+});
+
+export const GoalOutputSchema = z.object({
+  id: z.string(),
+  name: z.string().optional(),
+  metric: z.enum(['focus', 'meetings', 'breaks', 'sessions', 'project']),
+  target: z.number().describe('Minutes, or focus sessions for the sessions metric'),
+  period: z.enum(['day', 'workday', 'week', 'month']),
+  direction: z.enum(['at_least', 'at_most']),
+  projectId: z.string().optional(),
+  projectName: z.string().optional(),
+  createdAt: z.string(),
+  updatedAt: z.string()
+});
+
+export const GoalProgressOutputSchema = z.object({
+  goal: GoalOutputSchema,
+  startDate: z.string().describe('Current period'),
+  endDate: z.string(),
+  actual: z.number().describe('Same unit as the target'),
+  percent: z.number().describe('actual / target (1 = target reached)'),
+  elapsed: z.number().describe("Share (0-1) of the period's working time already past"),
+  expected: z.number().describe('Pro-rata target at this point of the period'),
+  projected: z.number().describe('Total at the end of the period at the current pace'),
+  status: z.enum(['achieved', 'on_track', 'behind', 'at_risk', 'exceeded', 'day_off']),
+  projectedCompletion: z.string().nullable().describe('When the target is reached at the current pace, if within the period'),
+  streak: z.number().describe('Consecutive periods meeting the goal'),
+  recent: z.array(z.object({
+    startDate: z.string(),
+    endDate: z.string(),
+    actual: z.number(),
+    met: z.boolean()
+  })).describe('Completed periods, most recent first')
+});
+
+// Shape grezze passate come `outputSchema` a registerTool, una per tool
+
+export const CurrentUserOutput = {
+  user: UserOutputSchema,
+  timeZone: z.string().describe('IANA time zone used for calendar days and displayed times')
+};
+
+export const ProductivityMetricsOutput = {
+  startDate: z.string(),
+  endDate: z.string(),
+  metrics: z.array(ProductivityMetricsOutputSchema)
+};
+
+export const FocusSessionsOutput = {
+  startDate: z.string(),
+  endDate: z.string(),
+  sessions: z.array(FocusSessionOutputSchema)
+};
+
+export const AnalyticsReportOutput = {
+  analytics: AnalyticsOutputSchema
+};
+
+export const TeamReportOutput = {
+  report: TeamReportOutputSchema
+};
+
+export const ProjectListOutput = {
+  projects: z.array(ProjectOutputSchema),
+  hasNextPage: z.boolean(),
+  nextCursor: z.string().nullish()
+};
+
+export const ProjectSearchOutput = {
+  query: z.string(),
+  matches: z.array(z.object({
+    project: ProjectOutputSchema,
+    score: z.number().describe('Match score from 0 to 1 (1 = exact name)')
+  }))
+};
+
+export const ProjectOutput = {
+  project: ProjectOutputSchema
+};
+
+export const CurrentSessionOutput = {
+  session: LiveSessionOutputSchema.nullable()
+};
+
+export const LiveSessionOutput = {
+  session: LiveSessionOutputSchema
+};
+
+export const StoppedSessionOutput = {
+  session: FocusSessionOutputSchema
+};
+
+export const TimeEntryListOutput = {
+  startDate: z.string(),
+  endDate: z.string(),
+  entries: z.array(TimeEntryOutputSchema)
+};
+
+export const TimeEntryOutput = {
+  entry: TimeEntryOutputSchema
+};
+
+export const ProductivitySummaryOutput = {
+  date: z.string(),
+  metrics: ProductivityMetricsOutputSchema.nullable(),
+  categoryBreakdown: z.array(CategoryShareOutputSchema),
+  sessions: z.array(FocusSessionOutputSchema)
+};
+
+export const CategoryBreakdownOutput = {
+  breakdown: CategoryBreakdownOutputSchema
+};
+
+const CacheCounterOutputSchema = z.object({
+  hits: z.number(),
+  misses: z.number(),
+  hitRate: z.number().describe('Share (0-1) of reads served from cache')
+});
+
+export const ExportReportOutput = {
+  dataset: z.string(),
+  format: z.string(),
+  startDate: z.string().optional().describe('Resolved range, absent for the projects dataset'),
+  endDate: z.string().optional(),
+  rows: z.number().describe('Number of exported rows'),
+  filename: z.string(),
+  mimeType: z.string(),
+  path: z.string().optional().describe('Written file, absent when the export is returned as an embedded resource')
+};
+
+export const GoalOutput = {
+  goal: GoalOutputSchema
+};
+
+export const GoalListOutput = {
+  goals: z.array(GoalOutputSchema),
+  location: z.string().describe("goals.json path, or 'memory' when GOALS_DIR=off")
+};
+
+export const GoalProgressOutput = {
+  progress: z.array(GoalProgressOutputSchema)
+};
+
+export const CacheStatsOutput = {
+  size: z.number(),
+  maxSize: z.number(),
+  hits: z.number(),
+  misses: z.number(),
+  hitRate: z.number().describe('Share (0-1) of reads served from cache'),
+  namespaces: z.record(CacheCounterOutputSchema.extend({
+    entries: z.number()
+  }))
+};
+
+export const ClearCacheOutput = {
+  scope: z.string(),
+  removed: z.number().describe('Number of cache entries removed')
+};
+
+export const SyncHistoryOutput = {
+  directory: z.string(),
+  days: z.number().describe('Completed days kept in the local history store'),
+  firstDate: z.string().optional(),
+  lastDate: z.string().optional(),
+  syncedDays: z.number().describe('Days downloaded from the API by this call'),
+  startDate: z.string().describe('First day of the requested range'),
+  endDate: z.string().describe('Last day of the requested range')
+};
+
+export const HealthCheckOutput = {
+  status: z.enum(['healthy', 'unhealthy']),
+  timestamp: z.string(),
+  apiConnection: z.boolean(),
+  version: z.string(),
+  rateLimit: z.object({
+    enabled: z.boolean(),
+    used: z.number().describe('Requests made in the current window'),
+    limit: z.number(),
+    windowMs: z.number(),
+    resetInMs: z.number(),
+    queued: z.number().describe('Requests waiting for a free slot'),
+    blockedForMs: z.number().describe('Remaining pause requested by the API via Retry-After')
+  }),
+  circuit: z.object({
+    state: z.enum(['closed', 'open', 'half-open']),
+    failures: z.number().describe('Consecutive upstream failures')
+  }),
+  error: z.string().optional()
+};
@@ -6,9 +6,18 @@ export interface RizeUser {
 export interface RizeProject {
   id: string;
   name: string;
+  description?: string;
   color?: string;
-  createdAt: string;
-  updatedAt: string;
+  isArchived: boolean;
+  createdAt?: string | null; // Non sempre restituito dall'API
+  updatedAt?: string | null;
+}
+
+export interface ProjectChanges {
+  name?: string;
+  description?: string;
+  color?: string;
+  isArchived?: boolean;
 }
 
 export interface RizeFocusSession {
@@ -25,18 +34,68 @@ export interface RizeFocusSession {
   isActive: boolean;
 }
 
+export interface RizeLiveSession extends RizeFocusSession {
+  elapsedMinutes: number;
+  remainingMinutes: number | null; // Fino alla fine prevista, null se la sessione non ha una fine
+}
+
+export interface StartSessionInput {
+  type: 'focus' | 'break';
+  title?: string;
+  duration: number; // Minuti
+  projectId?: string;
+}
+
+export interface FocusSessionFilters {
+  projectId?: string;
+  category?: 'work' | 'personal' | 'all';
+}
+
+export interface SummaryOptions {
+  sessions?: RizeFocusSession[]; // Sessioni dei giorni richiesti già lette dal chiamante, usate per il conteggio
+  countSessions?: boolean; // false: focusSessionsCount resta null e la query sessions non viene fatta
+}
+
 export interface RizeProductivityMetrics {
   date: string;
   totalFocusTime: number;
-  productivityScore: number;
-  focusSessionsCount: number;
+  productivityScore: number; // 0-100, quota pesata del tempo tracciato (vedi productivityScore in utils/analytics.ts)
+  focusSessionsCount: number | null; // Sessioni di focus iniziate nel giorno; null se non richieste (vedi getSummaries)
   topCategory: {
     name: string;
     timeSpent: number;
+    focus?: boolean;
   };
   breakTime: number;
-  distractionTime: number;
-  contextSwitches: number;
+  meetingTime: number; // Minuti
+  trackedTime?: number; // Minuti; assente nei giorni salvati nello storico prima che venisse registrato
+  distractionTime: number | null; // Non fornito dall'API di Rize: sempre null
+  contextSwitches: number | null; // Non fornito dall'API di Rize: sempre null
+  categories: RizeCategoryTime[];
+}
+
+export interface RizeCategoryTime {
+  name: string;
+  timeSpent: number; // Minuti
+  focus: boolean;
+  work: boolean;
+  idle: boolean;
+}
+
+export interface RizeCategoryShare extends RizeCategoryTime {
+  percentage: number; // Quota del tempo totale categorizzato, 0-100
+}
+
+export interface RizeCategoryBreakdown {
+  startDate: string;
+  endDate: string;
+  totalTime: number; // Minuti
+  categories: RizeCategoryShare[];
+  days: Array<{
+    date: string;
+    totalTime: number;
+    categories: RizeCategoryShare[];
+  }>;
 }
 
 export interface RizeTimeEntry {
@@ -52,6 +111,14 @@ export interface RizeTimeEntry {
   isManual: boolean;
 }
 
+export interface TimeEntryInput {
+  startTime: string;
+  endTime: string;
+  projectId?: string;
+  description?: string;
+  tags?: string[];
+}
+
 export interface RizeInsight {
   id: string;
   type: 'recommendation' | 'observation' | 'achievement';
@@ -63,13 +130,109 @@ export interface RizeInsight {
   metadata?: Record<string, any>;
 }
 
+export interface RizeAnalyticsPeriod {
+  startDate: string;
+  endDate: string;
+  totalFocusTime: number;
+  averageProductivityScore: number;
+  activeDays: number;
+  workingDays: number; // Giorni del periodo che sono lavorativi secondo il calendario
+  averageFocusPerWorkingDay: number; // Minuti di focus nei giorni lavorativi / workingDays
+  nonWorkingFocusTime: number; // Minuti di focus nei weekend e nelle festività
+  workingTimeFocusShare: number; // Quota (0-1) dell'orario lavorativo passata in focus
+}
+
 export interface RizeAnalytics {
   timeframe: string;
   metrics: RizeProductivityMetrics[];
   insights: RizeInsight[];
   trends: {
+    focusTime: number | null; // Variazione rispetto al periodo precedente come rapporto, null senza base di confronto
+    productivityScore: number | null;
+    consistency: number; // Quota di giorni che raggiungono dailyFocusTarget
+    consistencyBasis: 'working_days' | 'all_days'; // all_days se il periodo non ha giorni lavorativi
+    dailyFocusTarget: number; // Minuti
+  };
+  periods: {
+    current: RizeAnalyticsPeriod;
+    previous: RizeAnalyticsPeriod;
+  };
+}
+
+export interface RizeDistribution {
+  min: number;
+  max: number;
+  mean: number;
+  median: number;
+  standardDeviation: number;
+}
+
+export interface RizeTeamMember {
+  name: string;
+  focusTime: number; // Minuti
+  meetingTime: number;
+  breakTime: number;
+  activeDays: number;
+  averageDailyFocus: number; // Minuti di focus per giorno attivo
+  focusShare: number; // Quota (0-1) del tempo di focus del team
+  focusVsTeamAverage: number | null; // Rapporto con la media del team (0.25 = 25% sopra), null se il team non ha registrato focus
+}
+
+export interface RizeTeamReport {
+  startDate: string;
+  endDate: string;
+  privacy: boolean; // Se true vengono riportati solo gli aggregati
+  memberCount: number; // Membri i cui dati sono inclusi
+  totals: {
     focusTime: number;
-    productivityScore: number;
-    consistency: number;
+    meetingTime: number;
+    breakTime: number;
+  };
+  distribution: {
+    focusTime: RizeDistribution;
+    meetingTime: RizeDistribution;
+    breakTime: RizeDistribution;
   };
+  members?: RizeTeamMember[]; // Omesso in modalità privacy
+  unavailableCount: number; // Membri i cui dati non è stato possibile leggere
+  unavailableMembers?: string[]; // Omesso in modalità privacy
+}
+
+export type GoalMetric = 'focus' | 'meetings' | 'breaks' | 'sessions' | 'project';
+export type GoalPeriod = 'day' | 'workday' | 'week' | 'month';
+export type GoalDirection = 'at_least' | 'at_most';
+
+export interface RizeGoal {
+  id: string;
+  name?: string; // Etichetta opzionale; i report usano altrimenti una descrizione dell'obiettivo
+  metric: GoalMetric;
+  target: number; // Minuti, o sessioni di focus per la metrica sessions
+  period: GoalPeriod; // Gli obiettivi "workday" valgono per ogni giorno lavorativo del calendario
+  direction: GoalDirection;
+  projectId?: string; // Solo per la metrica project
+  projectName?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface RizeGoalPeriodResult {
+  startDate: string;
+  endDate: string;
+  actual: number;
+  met: boolean;
+}
+
+export interface RizeGoalProgress {
+  goal: RizeGoal;
+  startDate: string; // Periodo corrente
+  endDate: string;
+  actual: number; // Stessa unità dell'obiettivo
+  percent: number; // actual / target come rapporto (1 = obiettivo raggiunto)
+  elapsed: number; // Quota (0-1) del tempo lavorativo del periodo già trascorsa
+  expected: number; // Obiettivo in proporzione a questo punto del periodo
+  projected: number; // Totale a fine periodo al ritmo attuale
+  status: 'achieved' | 'on_track' | 'behind' | 'at_risk' | 'exceeded' | 'day_off';
+  projectedCompletion: string | null; // Quando un obiettivo at_least viene raggiunto al ritmo attuale: data, o data e ora per quelli giornalieri
+  streak: number; // Periodi consecutivi che rispettano l'obiettivo, compreso quello corrente una volta raggiunto
+  recent: RizeGoalPeriodResult[]; // Periodi conclusi controllati per la streak, dal più recente
 }
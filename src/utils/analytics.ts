@@ -0,0 +1,208 @@
+import { eachDayOfInterval, format, parseISO } from 'date-fns';
+import { RizeAnalyticsPeriod, RizeCategoryBreakdown, RizeCategoryShare, RizeCategoryTime, RizeDistribution, RizeProductivityMetrics, RizeTeamMember, RizeTeamReport } from '../types/rize.js';
+import { DateBounds } from './dates.js';
+import { DEFAULT_SCHEDULE, WorkSchedule, isWorkingDay, workingDaysIn, workingMinutesPerDay } from './schedule.js';
+
+function toDateString(date: Date): string {
+  return format(date, 'yyyy-MM-dd');
+}
+
+// Pesi del productivity score, uno per tipo di tempo tracciato (da -1 a 1)
+export interface ScoreWeights {
+  focus: number;
+  meeting: number;
+  break: number;
+  idle: number;
+}
+
+export const DEFAULT_SCORE_WEIGHTS: ScoreWeights = { focus: 1, meeting: 0, break: 0, idle: 0 };
+
+// Productivity score (0-100) di una giornata:
+//   100 × (focus × w.focus + meeting × w.meeting + break × w.break + idle × w.idle) / tracciato
+// Il tempo idle è quello passato nelle categorie marcate come idle. Con i pesi di default il punteggio
+// è la quota di tempo tracciato passata in focus. Il risultato è limitato a 0-100; senza tempo tracciato vale 0.
+export function productivityScore(
+  metrics: Pick<RizeProductivityMetrics, 'totalFocusTime' | 'meetingTime' | 'breakTime' | 'categories'> & { trackedTime: number },
+  weights: ScoreWeights = DEFAULT_SCORE_WEIGHTS
+): number {
+  if (metrics.trackedTime <= 0) {
+    return 0;
+  }
+  const idleTime = metrics.categories.filter(c => c.idle).reduce((sum, c) => sum + c.timeSpent, 0);
+  const weighted = metrics.totalFocusTime * weights.focus +
+    metrics.meetingTime * weights.meeting +
+    metrics.breakTime * weights.break +
+    idleTime * weights.idle;
+  return Math.min(100, Math.max(0, Math.round((weighted / metrics.trackedTime) * 100)));
+}
+
+export function summarizePeriod(
+  bounds: DateBounds,
+  metrics: RizeProductivityMetrics[],
+  schedule: WorkSchedule = DEFAULT_SCHEDULE
+): RizeAnalyticsPeriod {
+  const activeDays = metrics.filter(m => m.totalFocusTime > 0);
+  const totalFocusTime = metrics.reduce((sum, m) => sum + m.totalFocusTime, 0);
+  const workingDays = workingDaysIn(bounds, schedule).length;
+  const workingFocusTime = onWorkingDays(metrics, schedule).reduce((sum, m) => sum + m.totalFocusTime, 0);
+  const workingTime = workingDays * workingMinutesPerDay(schedule);
+  return {
+    startDate: bounds.startDate,
+    endDate: bounds.endDate,
+    totalFocusTime,
+    averageProductivityScore: activeDays.length > 0 ?
+      activeDays.reduce((sum, m) => sum + m.productivityScore, 0) / activeDays.length : 0,
+    activeDays: activeDays.length,
+    workingDays,
+    averageFocusPerWorkingDay: workingDays > 0 ? workingFocusTime / workingDays : 0,
+    nonWorkingFocusTime: totalFocusTime - workingFocusTime,
+    workingTimeFocusShare: workingTime > 0 ? workingFocusTime / workingTime : 0
+  };
+}
+
+// Solo le metriche dei giorni lavorativi, per i report che escludono weekend e festività
+export function onWorkingDays(metrics: RizeProductivityMetrics[], schedule: WorkSchedule): RizeProductivityMetrics[] {
+  return metrics.filter(m => isWorkingDay(m.date, schedule));
+}
+
+// Variazione relativa come rapporto (0.25 = +25%), null se non c'è un valore di riferimento
+export function percentChange(current: number, previous: number): number | null {
+  if (previous === 0) {
+    return null;
+  }
+  return (current - previous) / previous;
+}
+
+export interface Consistency {
+  share: number; // 0-1
+  basis: 'working_days' | 'all_days'; // Giorni su cui è calcolata la quota
+}
+
+// Quota dei giorni lavorativi del periodo il cui focus ha raggiunto l'obiettivo giornaliero.
+// Se il periodo non ha giorni lavorativi (es. un giorno di weekend) conta tutti i suoi giorni.
+export function computeConsistency(
+  bounds: DateBounds,
+  metrics: RizeProductivityMetrics[],
+  dailyFocusTarget: number,
+  schedule: WorkSchedule = DEFAULT_SCHEDULE
+): Consistency {
+  const workingDays = workingDaysIn(bounds, schedule);
+  const consideredDays = workingDays.length > 0 ? workingDays :
+    eachDayOfInterval({ start: parseISO(bounds.startDate), end: parseISO(bounds.endDate) }).map(toDateString);
+
+  const focusByDay = new Map(metrics.map(m => [m.date.slice(0, 10), m.totalFocusTime]));
+  const hits = consideredDays.filter(day => (focusByDay.get(day) || 0) >= dailyFocusTarget).length;
+
+  return {
+    share: consideredDays.length > 0 ? hits / consideredDays.length : 0,
+    basis: workingDays.length > 0 ? 'working_days' : 'all_days'
+  };
+}
+
+// Somma il tempo per nome di categoria ed esprime ogni categoria come quota del totale, dalla più grande
+function toCategoryShares(categories: RizeCategoryTime[]): { totalTime: number; categories: RizeCategoryShare[] } {
+  const byName = new Map<string, RizeCategoryTime>();
+  categories.forEach(category => {
+    const existing = byName.get(category.name);
+    byName.set(category.name, existing ? { ...existing, timeSpent: existing.timeSpent + category.timeSpent } : { ...category });
+  });
+
+  const totalTime = Array.from(byName.values()).reduce((sum, c) => sum + c.timeSpent, 0);
+  return {
+    totalTime,
+    categories: Array.from(byName.values())
+      .map(category => ({
+        ...category,
+        percentage: totalTime > 0 ? Math.round((category.timeSpent / totalTime) * 1000) / 10 : 0
+      }))
+      .sort((a, b) => b.timeSpent - a.timeSpent)
+  };
+}
+
+export function buildCategoryBreakdown(
+  startDate: string,
+  endDate: string,
+  metrics: RizeProductivityMetrics[]
+): RizeCategoryBreakdown {
+  const overall = toCategoryShares(metrics.flatMap(m => m.categories));
+  return {
+    startDate,
+    endDate,
+    totalTime: overall.totalTime,
+    categories: overall.categories,
+    days: metrics.map(m => ({
+      date: m.date.slice(0, 10),
+      ...toCategoryShares(m.categories)
+    }))
+  };
+}
+
+// Statistiche di popolazione su un valore per membro del team
+export function describeDistribution(values: number[]): RizeDistribution {
+  if (values.length === 0) {
+    return { min: 0, max: 0, mean: 0, median: 0, standardDeviation: 0 };
+  }
+  const sorted = [...values].sort((a, b) => a - b);
+  const mean = sorted.reduce((sum, value) => sum + value, 0) / sorted.length;
+  const middle = Math.floor(sorted.length / 2);
+  const variance = sorted.reduce((sum, value) => sum + (value - mean) ** 2, 0) / sorted.length;
+  return {
+    min: sorted[0],
+    max: sorted[sorted.length - 1],
+    mean,
+    median: sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle],
+    standardDeviation: Math.sqrt(variance)
+  };
+}
+
+export function buildTeamReport(
+  bounds: DateBounds,
+  members: Array<{ name: string; metrics: RizeProductivityMetrics[] }>,
+  unavailable: string[],
+  privacy: boolean
+): RizeTeamReport {
+  const totals = members.map(member => {
+    const activeDays = member.metrics.filter(m => m.totalFocusTime > 0).length;
+    const focusTime = member.metrics.reduce((sum, m) => sum + m.totalFocusTime, 0);
+    return {
+      name: member.name,
+      focusTime,
+      meetingTime: member.metrics.reduce((sum, m) => sum + m.meetingTime, 0),
+      breakTime: member.metrics.reduce((sum, m) => sum + m.breakTime, 0),
+      activeDays,
+      averageDailyFocus: activeDays > 0 ? focusTime / activeDays : 0
+    };
+  });
+
+  const teamFocus = totals.reduce((sum, member) => sum + member.focusTime, 0);
+  const focusDistribution = describeDistribution(totals.map(member => member.focusTime));
+  const report: RizeTeamReport = {
+    startDate: bounds.startDate,
+    endDate: bounds.endDate,
+    privacy,
+    memberCount: totals.length,
+    totals: {
+      focusTime: teamFocus,
+      meetingTime: totals.reduce((sum, member) => sum + member.meetingTime, 0),
+      breakTime: totals.reduce((sum, member) => sum + member.breakTime, 0)
+    },
+    distribution: {
+      focusTime: focusDistribution,
+      meetingTime: describeDistribution(totals.map(member => member.meetingTime)),
+      breakTime: describeDistribution(totals.map(member => member.breakTime))
+    },
+    unavailableCount: unavailable.length
+  };
+
+  if (!privacy) {
+    report.members = totals
+      .map((member): RizeTeamMember => ({
+        ...member,
+        focusShare: teamFocus > 0 ? member.focusTime / teamFocus : 0,
+        focusVsTeamAverage: percentChange(member.focusTime, focusDistribution.mean)
+      }))
+      .sort((a, b) => b.focusTime - a.focusTime);
+    report.unavailableMembers = unavailable;
+  }
+  return report;
+}
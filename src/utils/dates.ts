@@ -0,0 +1,299 @@
+import { parseISO } from 'date-fns';
+
+// Ogni giorno di calendario ("YYYY-MM-DD") gestito dal server è un giorno nel fuso orario dell'utente.
+// Gli istanti (timestamp dell'API, "adesso") vengono convertiti con le funzioni qui sotto invece che con
+// il fuso locale del server o con UTC, così una sessione serale non finisce mai nel giorno sbagliato.
+
+export interface DateBounds {
+  startDate: string;
+  endDate: string;
+}
+
+export type WeekDay = 0 | 1 | 2 | 3 | 4 | 5 | 6; // 0 = domenica, come in Date.getDay()
+
+export const SYSTEM_TIME_ZONE = Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+// Com'è fatto il calendario dell'utente: il fuso che definisce "oggi" e il primo giorno della settimana
+export interface CalendarSettings {
+  timeZone: string;
+  weekStartsOn: WeekDay;
+}
+
+export const DEFAULT_CALENDAR: CalendarSettings = { timeZone: SYSTEM_TIME_ZONE, weekStartsOn: 0 };
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+interface WallClock {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function wallClockFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit'
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    wallClockFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Converte i timestamp di Rize ("2025-09-05 04:00:00 +0200") in ISO 8601 ("2025-09-05T04:00:00+02:00");
+// le stringhe già ISO restano invariate
+export function toISOTimestamp(value: string): string {
+  return value
+    .replace(' ', 'T')
+    .replace(/\s*([+-])(\d{2})(\d{2})$/, '$1$2:$3');
+}
+
+export function isDateOnly(value: string): boolean {
+  return DATE_ONLY.test(value);
+}
+
+function toInstant(value: Date | string): Date {
+  const instant = typeof value === 'string' ? parseISO(toISOTimestamp(value)) : value;
+  if (isNaN(instant.getTime())) {
+    throw new Error(`Invalid timestamp: ${value}`);
+  }
+  return instant;
+}
+
+function wallClock(instant: Date, timeZone: string): WallClock {
+  const parts: Record<string, number> = {};
+  wallClockFormatter(timeZone).formatToParts(instant).forEach(part => {
+    if (part.type !== 'literal') parts[part.type] = parseInt(part.value);
+  });
+  return { year: parts.year, month: parts.month, day: parts.day, hour: parts.hour, minute: parts.minute, second: parts.second };
+}
+
+function pad(value: number): string {
+  return String(value).padStart(2, '0');
+}
+
+// Scostamento del fuso da UTC nell'istante dato, in minuti (+120 per CEST)
+export function offsetMinutes(instant: Date, timeZone: string): number {
+  const clock = wallClock(instant, timeZone);
+  const asUtc = Date.UTC(clock.year, clock.month - 1, clock.day, clock.hour, clock.minute, clock.second);
+  return Math.round((asUtc - Math.floor(instant.getTime() / 1000) * 1000) / 60000);
+}
+
+// Giorno di calendario di un istante nel fuso
+export function dayInZone(value: Date | string, timeZone: string): string {
+  if (typeof value === 'string' && isDateOnly(value)) {
+    return value;
+  }
+  const clock = wallClock(toInstant(value), timeZone);
+  return `${clock.year}-${pad(clock.month)}-${pad(clock.day)}`;
+}
+
+export function dateTimeInZone(value: Date | string, timeZone: string): string {
+  const clock = wallClock(toInstant(value), timeZone);
+  return `${clock.year}-${pad(clock.month)}-${pad(clock.day)} ${pad(clock.hour)}:${pad(clock.minute)}:${pad(clock.second)}`;
+}
+
+export function hourInZone(value: Date | string, timeZone: string): number {
+  return wallClock(toInstant(value), timeZone).hour;
+}
+
+// Minuti dalla mezzanotte locale (ora dell'orologio) nel fuso
+export function minuteOfDay(value: Date | string, timeZone: string): number {
+  const clock = wallClock(toInstant(value), timeZone);
+  return clock.hour * 60 + clock.minute;
+}
+
+export function today(timeZone: string, now: Date = new Date()): string {
+  return dayInZone(now, timeZone);
+}
+
+// Aritmetica di calendario su stringhe "YYYY-MM-DD", indipendente da qualsiasi fuso
+export function shiftDays(date: string, days: number): string {
+  const [year, month, day] = date.slice(0, 10).split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().slice(0, 10);
+}
+
+// Istante in cui l'orologio del fuso segna l'ora data (passata come se fosse UTC).
+// Gli orari ambigui (orologi spostati indietro) vanno alla prima occorrenza; quelli saltati dal
+// cambio d'ora vanno alla stessa distanza dopo il cambio, es. 02:30 -> 03:30.
+function wallClockToInstant(wallUtc: number, timeZone: string): number {
+  const day = 24 * 60 * 60000;
+  const offsets = [offsetMinutes(new Date(wallUtc - day), timeZone), offsetMinutes(new Date(wallUtc + day), timeZone)];
+  const candidates = offsets.map(offset => wallUtc - offset * 60000);
+  const valid = candidates.filter(instant => {
+    const clock = wallClock(new Date(instant), timeZone);
+    return Date.UTC(clock.year, clock.month - 1, clock.day, clock.hour, clock.minute, clock.second) === Math.floor(wallUtc / 1000) * 1000;
+  });
+  return valid.length > 0 ? Math.min(...valid) : candidates[0];
+}
+
+// Primo istante di un giorno nel fuso. Di solito la mezzanotte locale, ma dove il cambio d'ora salta
+// la mezzanotte (es. America/Santiago) il giorno inizia al primo orario che esiste.
+export function startOfDayInZone(date: string, timeZone: string): Date {
+  const [year, month, day] = date.slice(0, 10).split('-').map(Number);
+  return new Date(wallClockToInstant(Date.UTC(year, month - 1, day), timeZone));
+}
+
+// Le date-ora senza offset ("2025-09-22T09:00:00") sono orari del fuso dell'utente e vengono
+// restituite come stringhe ISO in UTC; i valori con "Z" o con un offset esplicito restano invariati
+export function resolveDateTime(value: string, timeZone: string): string {
+  const match = /^(\d{4})-(\d{2})-(\d{2})[T ](\d{2}):(\d{2})(?::(\d{2}))?(?:\.\d+)?$/.exec(value.trim());
+  if (!match) {
+    return value;
+  }
+  const [year, month, day, hour, minute, second] = match.slice(1).map(part => parseInt(part ?? '0'));
+  return new Date(wallClockToInstant(Date.UTC(year, month - 1, day, hour, minute, second), timeZone)).toISOString();
+}
+
+// Istanti UTC che coprono giorni interi nel fuso, per le query dell'API che accettano date-ora.
+// I giorni del cambio d'ora durano 23 o 25 ore; i limiti seguono il fuso invece di assumerne 24.
+export function dayBoundsInZone(startDate: string, endDate: string, timeZone: string): { startTime: string; endTime: string } {
+  return {
+    startTime: startOfDayInZone(startDate, timeZone).toISOString(),
+    endTime: new Date(startOfDayInZone(shiftDays(endDate, 1), timeZone).getTime() - 1).toISOString()
+  };
+}
+
+export function capAtToday(bounds: DateBounds, current: string): DateBounds {
+  return bounds.startDate <= current && current < bounds.endDate ? { ...bounds, endDate: current } : bounds;
+}
+
+export function dayOfWeek(date: string): WeekDay {
+  const [year, month, day] = date.slice(0, 10).split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day)).getUTCDay() as WeekDay;
+}
+
+export function startOfWeekOn(date: string, weekStartsOn: WeekDay): string {
+  return shiftDays(date, -((dayOfWeek(date) - weekStartsOn + 7) % 7));
+}
+
+export function monthRange(year: number, month: number): DateBounds {
+  const start = new Date(Date.UTC(year, month - 1, 1)).toISOString().slice(0, 10);
+  const end = new Date(Date.UTC(year, month, 0)).toISOString().slice(0, 10);
+  return { startDate: start, endDate: end };
+}
+
+export function quarterRange(year: number, quarter: number): DateBounds {
+  return { startDate: monthRange(year, quarter * 3 - 2).startDate, endDate: monthRange(year, quarter * 3).endDate };
+}
+
+// Settimana ISO 8601: da lunedì a domenica, la settimana 1 è quella che contiene il 4 gennaio.
+// Undefined se l'anno non ha quella settimana (solo alcuni anni hanno una settimana 53).
+export function isoWeekRange(year: number, week: number): DateBounds | undefined {
+  const january4 = `${year}-01-04`;
+  const startDate = shiftDays(startOfWeekOn(january4, 1), (week - 1) * 7);
+  if (week < 1 || !shiftDays(startDate, 3).startsWith(`${year}-`)) {
+    return undefined;
+  }
+  return { startDate, endDate: shiftDays(startDate, 6) };
+}
+
+// Il periodo corrente arriva fino a oggi nel fuso dell'utente; il precedente copre lo stesso tratto
+// un giorno/settimana/mese prima, così i periodi parziali vengono confrontati alla pari.
+export function getComparisonPeriods(
+  timeframe: 'day' | 'week' | 'month',
+  calendar: CalendarSettings = DEFAULT_CALENDAR,
+  now: Date = new Date()
+): { current: DateBounds; previous: DateBounds } {
+  const day = today(calendar.timeZone, now);
+  switch (timeframe) {
+    case 'day':
+      return {
+        current: { startDate: day, endDate: day },
+        previous: { startDate: shiftDays(day, -1), endDate: shiftDays(day, -1) }
+      };
+    case 'week': {
+      const weekStart = startOfWeekOn(day, calendar.weekStartsOn);
+      return {
+        current: { startDate: weekStart, endDate: day },
+        previous: { startDate: shiftDays(weekStart, -7), endDate: shiftDays(day, -7) }
+      };
+    }
+    case 'month': {
+      const [year, month, dayOfMonth] = day.split('-').map(Number);
+      const previousMonth = month === 1 ? monthRange(year - 1, 12) : monthRange(year, month - 1);
+      // Stesso giorno del mese precedente, limitato alla sua lunghezza (es. 31 mar -> 28 feb)
+      const previousDay = `${previousMonth.startDate.slice(0, 8)}${String(dayOfMonth).padStart(2, '0')}`;
+      return {
+        current: { startDate: monthRange(year, month).startDate, endDate: day },
+        previous: { startDate: previousMonth.startDate, endDate: previousDay < previousMonth.endDate ? previousDay : previousMonth.endDate }
+      };
+    }
+  }
+}
+
+// Una settimana dal suo primo giorno, tagliata a oggi se è ancora in corso
+export function weekBounds(weekStart: string, timeZone: string, now: Date = new Date()): DateBounds {
+  return capAtToday({ startDate: weekStart.slice(0, 10), endDate: shiftDays(weekStart, 6) }, today(timeZone, now));
+}
+
+// Un mese di calendario ("YYYY-MM"), tagliato a oggi se è ancora in corso
+export function monthBounds(month: string, timeZone: string, now: Date = new Date()): DateBounds {
+  const [year, monthNumber] = month.split('-').map(Number);
+  return capAtToday(monthRange(year, monthNumber), today(timeZone, now));
+}
+
+// Il mese prima di un mese di monthBounds: intero, o tagliato allo stesso giorno del mese (limitato alla
+// sua lunghezza) se il mese corrente è in corso, così i due coprono lo stesso tratto
+export function previousMonthBounds(current: DateBounds): DateBounds {
+  const [year, month, dayOfMonth] = current.endDate.split('-').map(Number);
+  const previousMonth = month === 1 ? monthRange(year - 1, 12) : monthRange(year, month - 1);
+  if (current.endDate === monthRange(year, month).endDate) {
+    return previousMonth;
+  }
+  const previousDay = `${previousMonth.startDate.slice(0, 8)}${String(dayOfMonth).padStart(2, '0')}`;
+  return { startDate: previousMonth.startDate, endDate: previousDay < previousMonth.endDate ? previousDay : previousMonth.endDate };
+}
+
+// Periodi con nome relativi a oggi, per le espressioni di data accettate dai tool.
+// I periodi in corso finiscono oggi: "this_month" il giorno 10 copre i giorni 1-10.
+export function relativePeriod(
+  period: 'week' | 'month' | 'quarter' | 'year',
+  offset: 0 | -1,
+  calendar: CalendarSettings,
+  now: Date = new Date()
+): DateBounds {
+  const current = today(calendar.timeZone, now);
+  const [year, month] = current.split('-').map(Number);
+  let bounds: DateBounds;
+  switch (period) {
+    case 'week': {
+      const start = shiftDays(startOfWeekOn(current, calendar.weekStartsOn), offset * 7);
+      bounds = { startDate: start, endDate: shiftDays(start, 6) };
+      break;
+    }
+    case 'month':
+      bounds = offset === 0 ? monthRange(year, month) : month === 1 ? monthRange(year - 1, 12) : monthRange(year, month - 1);
+      break;
+    case 'quarter': {
+      const quarter = Math.ceil(month / 3) + offset;
+      bounds = quarter === 0 ? quarterRange(year - 1, 4) : quarterRange(year, quarter);
+      break;
+    }
+    case 'year':
+      bounds = { startDate: `${year + offset}-01-01`, endDate: `${year + offset}-12-31` };
+      break;
+  }
+  return capAtToday(bounds, current);
+}
@@ -1,3 +1,4 @@
+import { ClientError } from 'graphql-request';
 // import { McpError } from '@modelcontextprotocol/sdk/types.js'; // Sostituire con errore custom se serve
 
 export class RizeApiError extends Error {
@@ -24,8 +25,77 @@ export class AuthenticationError extends Error {
 }
 
 export class RateLimitError extends Error {
-  constructor(message: string = 'Rate limit exceeded') {
+  retryAfterMs?: number;
+
+  constructor(message: string = 'Rate limit exceeded', retryAfterMs?: number) {
     super(`Rate Limit Error: ${message}`);
     this.name = 'RateLimitError';
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+const AUTH_ERROR_CODES = ['UNAUTHENTICATED', 'UNAUTHORIZED', 'FORBIDDEN', 'INVALID_TOKEN'];
+const RATE_LIMIT_ERROR_CODES = ['RATE_LIMITED', 'TOO_MANY_REQUESTS', 'THROTTLED'];
+const VALIDATION_ERROR_CODES = ['BAD_USER_INPUT', 'VALIDATION_ERROR', 'INVALID_INPUT', 'NOT_FOUND'];
+
+// Retry-After può essere un numero di secondi o una data HTTP
+export function parseRetryAfter(value: string | null | undefined, now: number = Date.now()): number | undefined {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(value);
+  return isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+// Converte i fallimenti di GraphQLClient.request nelle classi di errore qui sopra, in base a
+// status HTTP e codici di errore GraphQL, con messaggi su cui l'utente può agire
+export function classifyApiError(error: unknown): Error {
+  if (
+    error instanceof RizeApiError ||
+    error instanceof AuthenticationError ||
+    error instanceof RateLimitError ||
+    error instanceof ValidationError
+  ) {
+    return error;
+  }
+
+  if (error instanceof ClientError) {
+    const { status, errors = [] } = error.response;
+    const codes = errors
+      .map(e => (e.extensions as Record<string, unknown> | undefined)?.code)
+      .filter((code): code is string => typeof code === 'string')
+      .map(code => code.toUpperCase());
+    const detail = errors.map(e => e.message).join('; ') || `HTTP ${status}`;
+    const headers = (error.response as { headers?: Headers }).headers;
+
+    if (status === 401 || status === 403 || codes.some(code => AUTH_ERROR_CODES.includes(code))) {
+      return new AuthenticationError(`Rize rejected the API key (${detail}). Check that RIZE_API_KEY is set to a valid, non-revoked key from Rize settings`);
+    }
+    if (status === 429 || codes.some(code => RATE_LIMIT_ERROR_CODES.includes(code))) {
+      const retryAfterMs = parseRetryAfter(headers?.get?.('retry-after'));
+      const wait = retryAfterMs !== undefined ? ` Retry in ${Math.ceil(retryAfterMs / 1000)}s` : ' Wait a moment before retrying';
+      return new RateLimitError(`Too many requests to the Rize API.${wait}`, retryAfterMs);
+    }
+    if (status === 422 || codes.some(code => VALIDATION_ERROR_CODES.includes(code))) {
+      return new ValidationError(`Rize rejected the request: ${detail}`, { status, codes });
+    }
+    if (status >= 500) {
+      return new RizeApiError(`Rize is temporarily unavailable (HTTP ${status}). Try again in a few minutes`, { status, codes, retryable: true });
+    }
+    if (errors.length > 0) {
+      return new RizeApiError(`The Rize API rejected the query: ${detail}. The API schema may have changed; please report this issue`, { status, codes });
+    }
+    return new RizeApiError(`Unexpected response (HTTP ${status})`, { status });
   }
+
+  const message = error instanceof Error ? error.message : String(error);
+  return new RizeApiError(`Could not reach the Rize API (${message}). Check your network connection and try again`, { retryable: true });
+}
+
+// Errori temporanei (5xx, errori di rete, timeout, 429) per cui vale la pena riprovare
+export function isRetryableError(error: unknown): boolean {
+  if (error instanceof RateLimitError) return true;
+  return error instanceof RizeApiError && (error as any).data?.retryable === true;
 }
@@ -0,0 +1,106 @@
+import { RizeCategoryShare, RizeFocusSession, RizeProductivityMetrics, RizeProject } from '../types/rize.js';
+import { formatDate, formatDateTime, formatDuration } from './formatting.js';
+import { SYSTEM_TIME_ZONE } from './dates.js';
+
+export type ExportDataset = 'metrics' | 'sessions' | 'categories' | 'projects';
+export type ExportFormat = 'csv' | 'markdown' | 'json';
+
+export interface ExportTable {
+  columns: string[];
+  rows: Array<Array<string | number | boolean | null>>;
+}
+
+export const EXPORT_EXTENSIONS: Record<ExportFormat, string> = { csv: 'csv', markdown: 'md', json: 'json' };
+export const EXPORT_MIME_TYPES: Record<ExportFormat, string> = { csv: 'text/csv', markdown: 'text/markdown', json: 'application/json' };
+
+// Le tabelle affiancano i minuti grezzi, per i fogli di calcolo, a colonne leggibili di durata e data
+export function metricsTable(metrics: RizeProductivityMetrics[]): ExportTable {
+  return {
+    columns: ['date', 'focus', 'focus_minutes', 'meeting_minutes', 'break_minutes', 'productivity_score', 'focus_sessions', 'top_category'],
+    rows: metrics.map(m => [
+      formatDate(m.date),
+      formatDuration(m.totalFocusTime),
+      m.totalFocusTime,
+      m.meetingTime,
+      m.breakTime,
+      m.productivityScore,
+      m.focusSessionsCount,
+      m.topCategory.name
+    ])
+  };
+}
+
+export function sessionsTable(sessions: RizeFocusSession[], timeZone: string = SYSTEM_TIME_ZONE): ExportTable {
+  return {
+    columns: ['date', 'start', 'end', 'duration', 'duration_minutes', 'type', 'title', 'project_id'],
+    rows: sessions.map(s => [
+      formatDate(s.startTime, timeZone),
+      formatDateTime(s.startTime, timeZone),
+      s.endTime ? formatDateTime(s.endTime, timeZone) : null,
+      formatDuration(s.duration || 0),
+      s.duration || 0,
+      s.category,
+      s.title ?? null,
+      s.projectId ?? null
+    ])
+  };
+}
+
+export function categoriesTable(categories: RizeCategoryShare[]): ExportTable {
+  return {
+    columns: ['category', 'time', 'minutes', 'percentage', 'focus', 'work', 'idle'],
+    rows: categories.map(c => [c.name, formatDuration(c.timeSpent), c.timeSpent, c.percentage, c.focus, c.work, c.idle])
+  };
+}
+
+// Timestamp assenti o illeggibili diventano celle vuote invece di "Invalid Date"
+function dateCell(value: string | null | undefined, timeZone: string): string | null {
+  if (!value) {
+    return null;
+  }
+  const date = formatDate(value, timeZone);
+  return date === 'Invalid Date' ? null : date;
+}
+
+export function projectsTable(projects: RizeProject[], timeZone: string = SYSTEM_TIME_ZONE): ExportTable {
+  return {
+    columns: ['id', 'name', 'description', 'color', 'archived', 'created', 'updated'],
+    rows: projects.map(p => [
+      p.id,
+      p.name,
+      p.description ?? null,
+      p.color ?? null,
+      p.isArchived,
+      dateCell(p.createdAt, timeZone),
+      dateCell(p.updatedAt, timeZone)
+    ])
+  };
+}
+
+function csvCell(value: string | number | boolean | null): string {
+  const text = value === null ? '' : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function markdownCell(value: string | number | boolean | null): string {
+  return value === null ? '' : String(value).replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+}
+
+export function renderTable(table: ExportTable, exportFormat: ExportFormat): string {
+  switch (exportFormat) {
+    case 'csv':
+      return [table.columns, ...table.rows].map(row => row.map(csvCell).join(',')).join('\n') + '\n';
+    case 'markdown':
+      return [
+        `| ${table.columns.join(' | ')} |`,
+        `| ${table.columns.map(() => '---').join(' | ')} |`,
+        ...table.rows.map(row => `| ${row.map(markdownCell).join(' | ')} |`)
+      ].join('\n') + '\n';
+    case 'json':
+      return JSON.stringify(
+        table.rows.map(row => Object.fromEntries(table.columns.map((column, index) => [column, row[index]]))),
+        null,
+        2
+      ) + '\n';
+  }
+}
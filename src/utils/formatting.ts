@@ -1,5 +1,7 @@
-import { format, parseISO } from 'date-fns';
-import { RizeProductivityMetrics, RizeFocusSession, RizeAnalytics } from '../types/rize.js';
+import { RizeProductivityMetrics, RizeFocusSession, RizeAnalytics, RizeAnalyticsPeriod, RizeProject, RizeTimeEntry, RizeLiveSession, RizeCategoryBreakdown, RizeCategoryShare, RizeTeamReport, RizeGoal, RizeGoalProgress } from '../types/rize.js';
+import { SYSTEM_TIME_ZONE, dayInZone, dateTimeInZone } from './dates.js';
+import { WorkSchedule, clockTime, nonWorkingReason } from './schedule.js';
+import type { ResolvedDateRange } from './validation.js';
 
 export function formatDuration(minutes: number): string {
   const hours = Math.floor(minutes / 60);
@@ -10,63 +12,61 @@ export function formatDuration(minutes: number): string {
   return `${mins}m`;
 }
 
-export function formatDate(dateString: string): string {
+// I timestamp sono mostrati nel fuso dell'utente; le date semplici (YYYY-MM-DD) sono già giorni di calendario
+export function formatDate(dateString: string, timeZone: string = SYSTEM_TIME_ZONE): string {
   try {
-    const isoDate = convertRizeDateToISO(dateString);
-    return format(parseISO(isoDate), 'yyyy-MM-dd');
+    return dayInZone(dateString, timeZone);
   } catch (error) {
     return 'Invalid Date';
   }
 }
 
-export function formatDateTime(dateString: string): string {
+export function formatDateTime(dateString: string, timeZone: string = SYSTEM_TIME_ZONE): string {
   try {
-    const isoDate = convertRizeDateToISO(dateString);
-    return format(parseISO(isoDate), 'yyyy-MM-dd HH:mm:ss');
+    return dateTimeInZone(dateString, timeZone);
   } catch (error) {
     return 'Invalid DateTime';
   }
 }
 
-// Converte formato Rize.io "2025-09-05 04:00:00 +0200" in ISO 8601 "2025-09-05T04:00:00+02:00"
-function convertRizeDateToISO(dateString: string): string {
-  if (!dateString || typeof dateString !== 'string') {
-    throw new Error('Invalid date string');
+// Riporta a cosa si è risolta una data relativa; le date letterali non ne hanno bisogno
+export function formatResolvedRange(range: ResolvedDateRange): string {
+  if (!range.expression) {
+    return '';
   }
-
-  // Formato Rize.io: "2025-09-05 04:00:00 +0200"
-  // Formato ISO: "2025-09-05T04:00:00+02:00"
-
-  // Sostituisci spazio con T
-  let isoDate = dateString.replace(' ', 'T');
-
-  // Se c'è un timezone offset come "+0200", sostituiscilo con "+02:00"
-  // Regex: cattura il segno (+ o -) e le 4 cifre del timezone
-  isoDate = isoDate.replace(/([+-])(\d{2})(\d{2})$/, '$1$2:$3');
-
-  return isoDate;
+  const days = range.startDate === range.endDate ? range.startDate : `${range.startDate} → ${range.endDate}`;
+  return `📅 "${range.expression}" = ${days}\n\n`;
 }
 
-export function formatProductivityMetrics(metrics: RizeProductivityMetrics[]): string {
+// Con un calendario lavorativo weekend e festività sono etichettati e il focus è mediato anche per giorno lavorativo
+export function formatProductivityMetrics(metrics: RizeProductivityMetrics[], schedule?: WorkSchedule): string {
   if (metrics.length === 0) {
     return 'No productivity data available for the specified date range.';
   }
   const totalFocusTime = metrics.reduce((sum, m) => sum + m.totalFocusTime, 0);
   const avgProductivityScore = metrics.reduce((sum, m) => sum + m.productivityScore, 0) / metrics.length;
-  const totalSessions = metrics.reduce((sum, m) => sum + m.focusSessionsCount, 0);
+  const totalSessions = metrics.reduce((sum, m) => sum + (m.focusSessionsCount ?? 0), 0);
   let formatted = `📊 Productivity Metrics Summary (${metrics.length} days)\n\n`;
   formatted += `🎯 Total Focus Time: ${formatDuration(totalFocusTime)}\n`;
   formatted += `⚡ Average Productivity Score: ${avgProductivityScore.toFixed(1)}/100\n`;
-  formatted += `📈 Total Focus Sessions: ${totalSessions}\n\n`;
-  formatted += `📅 Daily Breakdown:\n`;
+  formatted += `📈 Total Focus Sessions: ${totalSessions}\n`;
+  if (schedule) {
+    const working = metrics.filter(m => !nonWorkingReason(m.date, schedule));
+    const workingFocus = working.reduce((sum, m) => sum + m.totalFocusTime, 0);
+    formatted += `💼 Per Working Day: ${formatDuration(working.length > 0 ? Math.round(workingFocus / working.length) : 0)} focus `;
+    formatted += `over ${working.length} working days`;
+    formatted += working.length < metrics.length ? `, ${formatDuration(totalFocusTime - workingFocus)} on days off\n` : `\n`;
+  }
+  formatted += `\n📅 Daily Breakdown:\n`;
   metrics.forEach(metric => {
-    formatted += `• ${metric.date}: ${formatDuration(metric.totalFocusTime)} focus time, `;
-    formatted += `${metric.productivityScore}/100 score, ${metric.focusSessionsCount} focus sessions\n`;
+    const reason = schedule && nonWorkingReason(metric.date, schedule);
+    formatted += `• ${metric.date}${reason ? ` (${reason})` : ''}: ${formatDuration(metric.totalFocusTime)} focus time, `;
+    formatted += `${metric.productivityScore}/100 score${metric.focusSessionsCount !== null ? `, ${metric.focusSessionsCount} focus sessions` : ''}\n`;
   });
   return formatted;
 }
 
-export function formatFocusSessions(sessions: RizeFocusSession[]): string {
+export function formatFocusSessions(sessions: RizeFocusSession[], timeZone: string = SYSTEM_TIME_ZONE): string {
   if (sessions.length === 0) {
     return 'No focus sessions found for the specified criteria.';
   }
@@ -75,10 +75,10 @@ export function formatFocusSessions(sessions: RizeFocusSession[]): string {
   const avgFocusScore = sessions.reduce((sum, s) => sum + (s.focusScore || 0), 0) / sessions.length;
   formatted += `⏱️ Total Duration: ${formatDuration(totalDuration)}\n`;
   formatted += `📊 Average Focus Score: ${avgFocusScore.toFixed(1)}/100\n\n`;
-  formatted += `📋 Session Details:\n`;
+  formatted += `📋 Session Details (${timeZone}):\n`;
   sessions.forEach(session => {
-    formatted += `• ${formatDateTime(session.startTime)} - `;
-    formatted += `${session.endTime ? formatDateTime(session.endTime) : 'Active'}\n`;
+    formatted += `• ${formatDateTime(session.startTime, timeZone)} - `;
+    formatted += `${session.endTime ? formatDateTime(session.endTime, timeZone) : 'Active'}\n`;
     formatted += `  Duration: ${formatDuration(session.duration || 0)}, `;
     formatted += `Score: ${session.focusScore || 0}/100, `;
     formatted += `App: ${session.application || 'Unknown'}\n`;
@@ -89,13 +89,39 @@ export function formatFocusSessions(sessions: RizeFocusSession[]): string {
   return formatted;
 }
 
-export function formatAnalytics(analytics: RizeAnalytics): string {
+function formatChange(change: number | null, unavailable: string = 'n/a (no data in previous period)'): string {
+  if (change === null) {
+    return unavailable;
+  }
+  return `${change > 0 ? '+' : ''}${(change * 100).toFixed(1)}%`;
+}
+
+function formatWorkingDays(period: RizeAnalyticsPeriod): string {
+  return `${formatDuration(Math.round(period.averageFocusPerWorkingDay))} per working day over ${period.workingDays} working days ` +
+    `(${(period.workingTimeFocusShare * 100).toFixed(1)}% of working hours)`;
+}
+
+export function formatAnalytics(analytics: RizeAnalytics, schedule?: WorkSchedule): string {
   let formatted = `📈 Analytics Report (${analytics.timeframe})\n\n`;
   // Trends
-  formatted += `🔄 Trends:\n`;
-  formatted += `• Focus Time: ${analytics.trends.focusTime > 0 ? '+' : ''}${(analytics.trends.focusTime * 100).toFixed(1)}%\n`;
-  formatted += `• Productivity Score: ${analytics.trends.productivityScore > 0 ? '+' : ''}${(analytics.trends.productivityScore * 100).toFixed(1)}%\n`;
-  formatted += `• Consistency: ${(analytics.trends.consistency * 100).toFixed(1)}%\n\n`;
+  formatted += `🔄 Trends (vs previous ${analytics.timeframe}):\n`;
+  formatted += `• Focus Time: ${formatChange(analytics.trends.focusTime)}\n`;
+  formatted += `• Productivity Score: ${formatChange(analytics.trends.productivityScore)}\n`;
+  const consideredDays = analytics.trends.consistencyBasis === 'working_days' ? 'working days' : 'days (no working days in period)';
+  formatted += `• Consistency: ${(analytics.trends.consistency * 100).toFixed(1)}% of ${consideredDays} reached ${formatDuration(analytics.trends.dailyFocusTarget)} focus\n\n`;
+  // Periods compared
+  const { current, previous } = analytics.periods;
+  formatted += `📅 Periods:\n`;
+  formatted += `• Current (${current.startDate} → ${current.endDate}): ${formatDuration(current.totalFocusTime)} focus, `;
+  formatted += `${current.averageProductivityScore.toFixed(1)}/100 avg score, ${current.activeDays} active days\n`;
+  formatted += `  ${formatWorkingDays(current)}\n`;
+  formatted += `• Previous (${previous.startDate} → ${previous.endDate}): ${formatDuration(previous.totalFocusTime)} focus, `;
+  formatted += `${previous.averageProductivityScore.toFixed(1)}/100 avg score, ${previous.activeDays} active days\n`;
+  formatted += `  ${formatWorkingDays(previous)}\n`;
+  if (schedule) {
+    formatted += `🗓️ Working hours: ${clockTime(schedule.workingHours.start)}-${clockTime(schedule.workingHours.end)}\n`;
+  }
+  formatted += `\n`;
   // Key Insights
   if (analytics.insights.length > 0) {
     formatted += `💡 Key Insights:\n`;
@@ -107,7 +133,175 @@ export function formatAnalytics(analytics: RizeAnalytics): string {
   }
   // Metrics summary
   if (analytics.metrics.length > 0) {
-    formatted += formatProductivityMetrics(analytics.metrics);
+    formatted += formatProductivityMetrics(analytics.metrics, schedule);
+  }
+  return formatted;
+}
+
+export function formatProject(project: RizeProject, timeZone: string = SYSTEM_TIME_ZONE): string {
+  let formatted = `📁 ${project.name}${project.isArchived ? ' (archived)' : ''}\n`;
+  formatted += `🆔 ID: ${project.id}\n`;
+  if (project.description) formatted += `📝 Description: ${project.description}\n`;
+  if (project.color) formatted += `🎨 Color: ${project.color}\n`;
+  const dates = [
+    project.createdAt ? `Created: ${formatDate(project.createdAt, timeZone)}` : undefined,
+    project.updatedAt ? `Updated: ${formatDate(project.updatedAt, timeZone)}` : undefined
+  ].filter(Boolean);
+  if (dates.length > 0) formatted += `📅 ${dates.join(', ')}\n`;
+  return formatted;
+}
+
+export function formatTimeEntries(entries: RizeTimeEntry[], timeZone: string = SYSTEM_TIME_ZONE): string {
+  if (entries.length === 0) {
+    return 'No time entries found for the specified criteria.';
+  }
+  const totalDuration = entries.reduce((sum, e) => sum + e.duration, 0);
+  let formatted = `🕒 Time Entries (${entries.length} entries, ${formatDuration(totalDuration)} total, ${timeZone})\n\n`;
+  entries.forEach(entry => {
+    formatted += formatTimeEntry(entry, timeZone);
+    formatted += `\n`;
+  });
+  return formatted;
+}
+
+export function formatTimeEntry(entry: RizeTimeEntry, timeZone: string = SYSTEM_TIME_ZONE): string {
+  let formatted = `• ${formatDateTime(entry.startTime, timeZone)} - ${entry.endTime ? formatDateTime(entry.endTime, timeZone) : 'Open'}`;
+  formatted += ` (${formatDuration(entry.duration)})${entry.isManual ? ' ✍️ manual' : ''}\n`;
+  formatted += `  ID: ${entry.id}, Project: ${entry.category}\n`;
+  if (entry.description) formatted += `  Description: ${entry.description}\n`;
+  if (entry.tags && entry.tags.length > 0) formatted += `  Tags: ${entry.tags.join(', ')}\n`;
+  return formatted;
+}
+
+export function formatLiveSession(session: RizeLiveSession, timeZone: string = SYSTEM_TIME_ZONE): string {
+  let formatted = `⏳ ${session.category} session in progress${session.title ? `: ${session.title}` : ''}\n`;
+  formatted += `🆔 ID: ${session.id}\n`;
+  formatted += `▶️ Started: ${formatDateTime(session.startTime, timeZone)} (${timeZone})\n`;
+  formatted += `⏱️ Elapsed: ${formatDuration(session.elapsedMinutes)}\n`;
+  if (session.remainingMinutes !== null) {
+    formatted += `⌛ Remaining: ${formatDuration(session.remainingMinutes)}`;
+    if (session.endTime) formatted += ` (ends ${formatDateTime(session.endTime, timeZone)})`;
+    formatted += `\n`;
+  }
+  if (session.projectId) formatted += `📁 Project: ${session.projectId}\n`;
+  return formatted;
+}
+
+export function formatCategoryShares(categories: RizeCategoryShare[]): string {
+  let formatted = '';
+  categories.forEach(category => {
+    const flags = [category.focus && 'focus', category.work && 'work', category.idle && 'idle'].filter(Boolean);
+    formatted += `• ${category.name}: ${formatDuration(category.timeSpent)} (${category.percentage.toFixed(1)}%)`;
+    if (flags.length > 0) formatted += ` [${flags.join(', ')}]`;
+    formatted += `\n`;
+  });
+  return formatted;
+}
+
+export function formatCategoryBreakdown(breakdown: RizeCategoryBreakdown, includeDays: boolean = true): string {
+  if (breakdown.categories.length === 0) {
+    return 'No category data available for the specified date range.';
+  }
+  let formatted = `🗂️ Category Breakdown (${breakdown.startDate} → ${breakdown.endDate})\n\n`;
+  formatted += `⏱️ Total Tracked: ${formatDuration(breakdown.totalTime)}\n\n`;
+  formatted += formatCategoryShares(breakdown.categories);
+  if (includeDays && breakdown.days.length > 1) {
+    formatted += `\n📅 Daily Detail:\n`;
+    breakdown.days.forEach(day => {
+      const top = day.categories.slice(0, 3)
+        .map(category => `${category.name} ${formatDuration(category.timeSpent)}`)
+        .join(', ');
+      formatted += `• ${day.date}: ${formatDuration(day.totalTime)}${top ? ` (${top})` : ''}\n`;
+    });
+  }
+  return formatted;
+}
+
+export function formatTeamReport(report: RizeTeamReport): string {
+  const minutes = (value: number) => formatDuration(Math.round(value));
+  let formatted = `👥 Team Report (${report.startDate} → ${report.endDate})\n\n`;
+  formatted += `🧑‍🤝‍🧑 Members: ${report.memberCount}${report.privacy ? ' (privacy mode: aggregates only)' : ''}\n`;
+  if (report.unavailableCount > 0) {
+    formatted += `⚠️ Unavailable: ${report.unavailableCount}${report.unavailableMembers ? ` (${report.unavailableMembers.join(', ')})` : ''}\n`;
+  }
+  formatted += `\n📊 Team Totals:\n`;
+  formatted += `• Focus: ${minutes(report.totals.focusTime)}\n`;
+  formatted += `• Meetings: ${minutes(report.totals.meetingTime)}\n`;
+  formatted += `• Breaks: ${minutes(report.totals.breakTime)}\n`;
+
+  formatted += `\n📐 Per-Member Distribution (mean / median / min-max / std dev):\n`;
+  (['focusTime', 'meetingTime', 'breakTime'] as const).forEach(key => {
+    const stats = report.distribution[key];
+    const label = key === 'focusTime' ? 'Focus' : key === 'meetingTime' ? 'Meetings' : 'Breaks';
+    formatted += `• ${label}: ${minutes(stats.mean)} / ${minutes(stats.median)} / ${minutes(stats.min)}-${minutes(stats.max)} / ${minutes(stats.standardDeviation)}\n`;
+  });
+
+  if (report.members) {
+    formatted += `\n🏅 Members (by focus time):\n`;
+    report.members.forEach(member => {
+      formatted += `• ${member.name}: ${minutes(member.focusTime)} focus (${(member.focusShare * 100).toFixed(1)}% of team, ${formatChange(member.focusVsTeamAverage, 'n/a')} vs average), `;
+      formatted += `${minutes(member.meetingTime)} meetings, ${minutes(member.breakTime)} breaks, ${member.activeDays} active days\n`;
+    });
+  }
+  return formatted;
+}
+
+const GOAL_METRICS: Record<RizeGoal['metric'], string> = {
+  focus: 'Focus',
+  meetings: 'Meetings',
+  breaks: 'Breaks',
+  sessions: 'Focus sessions',
+  project: 'Project'
+};
+
+const GOAL_PERIODS: Record<RizeGoal['period'], string> = {
+  day: 'per day',
+  workday: 'per working day',
+  week: 'per week',
+  month: 'per month'
+};
+
+const GOAL_STATUS: Record<RizeGoalProgress['status'], string> = {
+  achieved: '✅ Achieved',
+  on_track: '🟢 On track',
+  behind: '🟡 Behind',
+  at_risk: '🟠 At risk',
+  exceeded: '🔴 Exceeded',
+  day_off: '💤 Day off'
+};
+
+// Minuti per gli obiettivi di tempo, un semplice conteggio per quelli di sessioni
+function goalAmount(goal: RizeGoal, value: number): string {
+  return goal.metric === 'sessions' ? `${Math.round(value)} sessions` : formatDuration(Math.round(value));
+}
+
+// "Focus ≥ 4h 0m per working day"
+export function describeGoal(goal: RizeGoal): string {
+  const subject = goal.metric === 'project' ? `Project ${goal.projectName ?? goal.projectId}` : GOAL_METRICS[goal.metric];
+  return `${subject} ${goal.direction === 'at_least' ? '≥' : '≤'} ${goalAmount(goal, goal.target)} ${GOAL_PERIODS[goal.period]}`;
+}
+
+export function formatGoal(goal: RizeGoal): string {
+  return `🎯 ${goal.name ? `${goal.name}: ` : ''}${describeGoal(goal)}\n🆔 ID: ${goal.id}\n`;
+}
+
+export function formatGoalProgress(progress: RizeGoalProgress): string {
+  const { goal } = progress;
+  const period = progress.startDate === progress.endDate ? progress.startDate : `${progress.startDate} → ${progress.endDate}`;
+  let formatted = `🎯 ${goal.name ?? describeGoal(goal)} (${goal.id})\n`;
+  if (goal.name) {
+    formatted += `   ${describeGoal(goal)}\n`;
+  }
+  formatted += `   ${GOAL_STATUS[progress.status]}: ${goalAmount(goal, progress.actual)} of ${goalAmount(goal, goal.target)} `;
+  formatted += `(${(progress.percent * 100).toFixed(0)}%) for ${period}\n`;
+  if (progress.status !== 'day_off') {
+    formatted += `   ⏱️ Pace: ${goalAmount(goal, progress.expected)} expected at ${(progress.elapsed * 100).toFixed(0)}% of the period, `;
+    formatted += `${goalAmount(goal, progress.projected)} projected\n`;
+  }
+  if (progress.projectedCompletion) {
+    formatted += `   🏁 Projected completion: ${progress.projectedCompletion}\n`;
   }
+  formatted += `   🔥 Streak: ${progress.streak} ${goal.period === 'workday' ? 'working day' : goal.period}${progress.streak === 1 ? '' : 's'}`;
+  formatted += ` (${progress.recent.filter(result => result.met).length}/${progress.recent.length} recent periods met)\n`;
   return formatted;
 }
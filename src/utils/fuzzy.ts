@@ -0,0 +1,41 @@
+// Fuzzy matching leggero per risolvere i nomi scritti dall'utente ("backend") nelle entità ("Backend API")
+
+function normalize(value: string): string {
+  return value.toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/\s+/g, ' ').trim();
+}
+
+function levenshtein(a: string, b: string): number {
+  const previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = previous[0];
+    previous[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = previous[j];
+      previous[j] = Math.min(
+        previous[j] + 1,
+        previous[j - 1] + 1,
+        diagonal + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+      diagonal = above;
+    }
+  }
+  return previous[b.length];
+}
+
+// Restituisce un punteggio tra 0 (nessuna corrispondenza) e 1 (corrispondenza esatta, senza distinzione di maiuscole)
+export function fuzzyScore(query: string, candidate: string): number {
+  const q = normalize(query);
+  const c = normalize(candidate);
+  if (!q || !c) return 0;
+  if (q === c) return 1;
+  if (c.startsWith(q)) return 0.9;
+  if (c.includes(q)) return 0.8;
+
+  const tokens = q.split(' ');
+  if (tokens.every(token => c.includes(token))) return 0.7;
+
+  // Errori di battitura: confronta con il nome intero e con ciascuna delle sue parole
+  const words = [c, ...c.split(' ')];
+  const best = Math.max(...words.map(word => 1 - levenshtein(q, word) / Math.max(q.length, word.length)));
+  return best >= 0.6 ? best * 0.7 : 0;
+}
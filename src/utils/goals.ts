@@ -0,0 +1,160 @@
+import { RizeGoal, RizeGoalPeriodResult, RizeGoalProgress, RizeProductivityMetrics, RizeTimeEntry, GoalPeriod } from '../types/rize.js';
+import { CalendarSettings, DateBounds, dayInZone, minuteOfDay, monthRange, shiftDays, startOfWeekOn, today } from './dates.js';
+import { WorkSchedule, clockTime, isWorkingDay, previousWorkingDay, workingDaysIn, workingMinutesPerDay } from './schedule.js';
+
+// Valutazione degli obiettivi sui valori giornalieri: ritmo nel periodo corrente, proiezione alla sua fine
+// e streak sui periodi conclusi precedenti. Il ritmo segue il calendario lavorativo, così un obiettivo
+// settimanale non risulta "indietro" il sabato mattina né uno giornaliero alle 8.
+
+// Periodi conclusi controllati per la streak
+export const STREAK_LOOKBACK: Record<GoalPeriod, number> = { day: 30, workday: 30, week: 8, month: 3 };
+
+export function goalPeriod(period: GoalPeriod, date: string, calendar: CalendarSettings): DateBounds {
+  switch (period) {
+    case 'week': {
+      const startDate = startOfWeekOn(date, calendar.weekStartsOn);
+      return { startDate, endDate: shiftDays(startDate, 6) };
+    }
+    case 'month': {
+      const [year, month] = date.split('-').map(Number);
+      return monthRange(year, month);
+    }
+    default:
+      return { startDate: date, endDate: date };
+  }
+}
+
+export function previousGoalPeriod(period: GoalPeriod, bounds: DateBounds, calendar: CalendarSettings, schedule: WorkSchedule): DateBounds {
+  if (period === 'workday') {
+    const day = previousWorkingDay(bounds.startDate, schedule);
+    return { startDate: day, endDate: day };
+  }
+  return goalPeriod(period, shiftDays(bounds.startDate, -1), calendar);
+}
+
+function recentPeriods(goal: RizeGoal, current: DateBounds, calendar: CalendarSettings, schedule: WorkSchedule): DateBounds[] {
+  const periods: DateBounds[] = [];
+  let bounds = current;
+  for (let i = 0; i < STREAK_LOOKBACK[goal.period]; i++) {
+    bounds = previousGoalPeriod(goal.period, bounds, calendar, schedule);
+    periods.push(bounds);
+  }
+  return periods;
+}
+
+// Giorni di cui la valutazione ha bisogno: i periodi della streak fino a oggi
+export function goalDataRange(goal: RizeGoal, calendar: CalendarSettings, schedule: WorkSchedule, now: Date = new Date()): DateBounds {
+  const day = today(calendar.timeZone, now);
+  const periods = recentPeriods(goal, goalPeriod(goal.period, day, calendar), calendar, schedule);
+  return { startDate: periods[periods.length - 1].startDate, endDate: day };
+}
+
+// Valore della metrica dell'obiettivo per giorno: minuti, o sessioni di focus per la metrica sessions.
+// Gli obiettivi di progetto sommano le time entry del progetto, assegnate al giorno di inizio nel fuso dell'utente.
+export function dailyGoalValues(goal: RizeGoal, metrics: RizeProductivityMetrics[], timeEntries: RizeTimeEntry[], timeZone: string): Map<string, number> {
+  const values = new Map<string, number>();
+  const add = (date: string, value: number) => values.set(date, (values.get(date) ?? 0) + value);
+
+  if (goal.metric === 'project') {
+    timeEntries
+      .filter(entry => entry.projectId === goal.projectId)
+      .forEach(entry => add(dayInZone(entry.startTime, timeZone), entry.duration));
+    return values;
+  }
+
+  metrics.forEach(metric => {
+    const value = goal.metric === 'focus' ? metric.totalFocusTime :
+      goal.metric === 'meetings' ? metric.meetingTime :
+        goal.metric === 'breaks' ? metric.breakTime :
+          metric.focusSessionsCount ?? 0;
+    add(metric.date.slice(0, 10), value);
+  });
+  return values;
+}
+
+function sumOver(values: Map<string, number>, bounds: DateBounds): number {
+  let total = 0;
+  values.forEach((value, date) => {
+    if (bounds.startDate <= date && date <= bounds.endDate) total += value;
+  });
+  return total;
+}
+
+function isMet(goal: RizeGoal, actual: number): boolean {
+  return goal.direction === 'at_least' ? actual >= goal.target : actual <= goal.target;
+}
+
+export function evaluateGoal(
+  goal: RizeGoal,
+  values: Map<string, number>,
+  calendar: CalendarSettings,
+  schedule: WorkSchedule,
+  now: Date = new Date()
+): RizeGoalProgress {
+  const day = today(calendar.timeZone, now);
+  const bounds = goalPeriod(goal.period, day, calendar);
+  const actual = sumOver(values, { startDate: bounds.startDate, endDate: day });
+
+  // Quota dell'orario lavorativo di oggi già trascorsa
+  const { start, end } = schedule.workingHours;
+  const todayShare = Math.min(Math.max((minuteOfDay(now, calendar.timeZone) - start) / workingMinutesPerDay(schedule), 0), 1);
+
+  // Giorni su cui si distribuisce l'obiettivo: i giorni lavorativi, o tutti se il periodo non ne ha
+  const periodDays = goal.period === 'week' || goal.period === 'month' ? workingDaysIn(bounds, schedule) : [day];
+  const days = periodDays.length > 0 ? periodDays : workingDaysIn(bounds, { ...schedule, workingDays: [0, 1, 2, 3, 4, 5, 6], holidays: [] });
+  const daysPast = days.filter(date => date < day).length + (days.includes(day) ? todayShare : 0);
+  const elapsed = daysPast / days.length;
+
+  const expected = Math.round(goal.target * elapsed);
+  const projected = elapsed > 0 ? Math.round(actual / elapsed) : actual;
+
+  let status: RizeGoalProgress['status'];
+  if (goal.period === 'workday' && !isWorkingDay(day, schedule)) {
+    status = 'day_off';
+  } else if (goal.direction === 'at_least') {
+    status = actual >= goal.target ? 'achieved' : actual >= expected ? 'on_track' : 'behind';
+  } else {
+    status = actual > goal.target ? 'exceeded' : projected > goal.target ? 'at_risk' : 'on_track';
+  }
+
+  // Quando si raggiunge l'obiettivo al ritmo tenuto finora, se entro il periodo
+  let projectedCompletion: string | null = null;
+  if (goal.direction === 'at_least' && status !== 'achieved' && status !== 'day_off' && actual > 0 && projected >= goal.target) {
+    const perDay = actual / daysPast;
+    let needed = (goal.target - actual) / perDay;
+    if (goal.period === 'day' || goal.period === 'workday') {
+      projectedCompletion = `${day} ${clockTime(Math.min(Math.ceil(start + (todayShare + needed) * workingMinutesPerDay(schedule)), end))}`;
+    } else {
+      const todayLeft = days.includes(day) ? 1 - todayShare : 0;
+      if (needed <= todayLeft) {
+        projectedCompletion = day;
+      } else {
+        needed -= todayLeft;
+        const ahead = days.filter(date => date > day);
+        projectedCompletion = ahead[Math.min(Math.ceil(needed), ahead.length) - 1] ?? null;
+      }
+    }
+  }
+
+  const recent: RizeGoalPeriodResult[] = recentPeriods(goal, bounds, calendar, schedule).map(period => {
+    const total = sumOver(values, period);
+    return { startDate: period.startDate, endDate: period.endDate, actual: total, met: isMet(goal, total) };
+  });
+  const firstMissed = recent.findIndex(result => !result.met);
+  const streak = (firstMissed === -1 ? recent.length : firstMissed) + (status === 'achieved' ? 1 : 0);
+
+  return {
+    goal,
+    startDate: bounds.startDate,
+    endDate: bounds.endDate,
+    actual,
+    percent: actual / goal.target,
+    elapsed,
+    expected,
+    projected,
+    status,
+    projectedCompletion,
+    streak,
+    recent
+  };
+}
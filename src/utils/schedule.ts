@@ -0,0 +1,171 @@
+import { readFileSync } from 'node:fs';
+import { DateBounds, WeekDay, dayOfWeek, shiftDays } from './dates.js';
+
+// Il calendario lavorativo dell'utente: quali giorni sono lavorativi e l'orario di lavoro.
+// I giorni non lavorativi (weekend, festività) sono esclusi dalle medie "per giorno lavorativo".
+
+export interface Holiday {
+  startDate: string; // YYYY-MM-DD
+  endDate: string; // Incluso
+  name?: string;
+  yearly: boolean; // Si ripete nelle stesse date ogni anno a partire da startDate
+  until?: string; // Ultimo giorno di una festività annuale, da RRULE UNTIL
+}
+
+export interface WorkSchedule {
+  workingDays: WeekDay[];
+  workingHours: { start: number; end: number }; // Minuti dopo la mezzanotte, fine esclusa
+  holidays: Holiday[];
+}
+
+export const DEFAULT_SCHEDULE: WorkSchedule = {
+  workingDays: [1, 2, 3, 4, 5],
+  workingHours: { start: 9 * 60, end: 17 * 60 },
+  holidays: []
+};
+
+function occursOn(holiday: Holiday, date: string): boolean {
+  if (!holiday.yearly) {
+    return holiday.startDate <= date && date <= holiday.endDate;
+  }
+  if (date < holiday.startDate || (holiday.until && date > holiday.until)) {
+    return false;
+  }
+  const day = date.slice(5);
+  const start = holiday.startDate.slice(5);
+  const end = holiday.endDate.slice(5);
+  // Una festività a cavallo di capodanno (31 dic -> 1 gen) attraversa il cambio d'anno
+  return start <= end ? start <= day && day <= end : day >= start || day <= end;
+}
+
+export function holidayOn(date: string, schedule: WorkSchedule): Holiday | undefined {
+  return schedule.holidays.find(holiday => occursOn(holiday, date.slice(0, 10)));
+}
+
+export function isWorkingDay(date: string, schedule: WorkSchedule): boolean {
+  return schedule.workingDays.includes(dayOfWeek(date)) && !holidayOn(date, schedule);
+}
+
+// Perché un giorno non è lavorativo, per le etichette nei report; undefined nei giorni lavorativi
+export function nonWorkingReason(date: string, schedule: WorkSchedule): string | undefined {
+  const holiday = holidayOn(date, schedule);
+  if (holiday) {
+    return holiday.name ?? 'holiday';
+  }
+  return schedule.workingDays.includes(dayOfWeek(date)) ? undefined : 'day off';
+}
+
+export function workingDaysIn(bounds: DateBounds, schedule: WorkSchedule): string[] {
+  const days: string[] = [];
+  for (let day = bounds.startDate.slice(0, 10); day <= bounds.endDate.slice(0, 10); day = shiftDays(day, 1)) {
+    if (isWorkingDay(day, schedule)) days.push(day);
+  }
+  return days;
+}
+
+// Giorno lavorativo più vicino prima di quello dato. Si arrende dopo un anno, così un calendario fatto
+// solo di festività ricade sul giorno precedente invece di ciclare all'infinito.
+export function previousWorkingDay(date: string, schedule: WorkSchedule): string {
+  for (let offset = 1; offset <= 366; offset++) {
+    const day = shiftDays(date, -offset);
+    if (isWorkingDay(day, schedule)) return day;
+  }
+  return shiftDays(date, -1);
+}
+
+export function nextWorkingDay(date: string, schedule: WorkSchedule): string {
+  for (let offset = 1; offset <= 366; offset++) {
+    const day = shiftDays(date, offset);
+    if (isWorkingDay(day, schedule)) return day;
+  }
+  return shiftDays(date, 1);
+}
+
+export function workingMinutesPerDay(schedule: WorkSchedule): number {
+  return schedule.workingHours.end - schedule.workingHours.start;
+}
+
+// 540 -> "09:00"
+export function clockTime(minutes: number): string {
+  return `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+}
+
+// "09:00" -> 540; undefined se il valore non è un orario HH:MM valido (24:00 è ammesso come fine)
+export function parseClockTime(value: string): number | undefined {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(value.trim());
+  if (!match) {
+    return undefined;
+  }
+  const minutes = parseInt(match[1]) * 60 + parseInt(match[2]);
+  return parseInt(match[2]) < 60 && minutes <= 24 * 60 ? minutes : undefined;
+}
+
+function icsDate(value: string): string | undefined {
+  const match = /^(\d{4})(\d{2})(\d{2})/.exec(value);
+  return match ? `${match[1]}-${match[2]}-${match[3]}` : undefined;
+}
+
+function unescapeText(value: string): string {
+  return value.replace(/\\([,;\\])/g, '$1').replace(/\\n/gi, ' ').trim();
+}
+
+// Eventi di un file iCalendar (RFC 5545), come un calendario pubblico delle festività; ogni evento
+// segna i giorni interi che copre. Il DTEND di un evento solo-data è escluso; gli eventi senza DTEND
+// durano un giorno. RRULE è considerata solo con FREQ=YEARLY, la forma usata dalle festività a data
+// fissa; gli eventi annullati vengono saltati.
+export function parseHolidayCalendar(ics: string): Holiday[] {
+  if (!/^BEGIN:VCALENDAR/im.test(ics)) {
+    throw new Error('Not an iCalendar file: BEGIN:VCALENDAR is missing');
+  }
+  const lines = ics.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+  const holidays: Holiday[] = [];
+  let event: Record<string, string> | undefined;
+
+  for (const line of lines) {
+    if (/^BEGIN:VEVENT$/i.test(line.trim())) {
+      event = {};
+      continue;
+    }
+    if (/^END:VEVENT$/i.test(line.trim())) {
+      const startDate = event?.DTSTART && icsDate(event.DTSTART);
+      if (event && startDate && event.STATUS?.toUpperCase() !== 'CANCELLED') {
+        const end = event.DTEND && icsDate(event.DTEND);
+        // Un DTEND solo-data è il giorno dopo l'evento; un DTEND con ora cade nell'ultimo giorno
+        const endDate = end && /^\d{8}$/.test(event.DTEND) ? shiftDays(end, -1) : end;
+        const rule = event.RRULE?.toUpperCase() ?? '';
+        const until = /UNTIL=(\d{8})/.exec(rule)?.[1];
+        holidays.push({
+          startDate,
+          endDate: endDate && endDate > startDate ? endDate : startDate,
+          name: event.SUMMARY ? unescapeText(event.SUMMARY) || undefined : undefined,
+          yearly: /FREQ=YEARLY/.test(rule),
+          until: until ? icsDate(until) : undefined
+        });
+      }
+      event = undefined;
+      continue;
+    }
+    const separator = line.indexOf(':');
+    if (event && separator > 0) {
+      // I parametri (";VALUE=DATE", ";LANGUAGE=en") non servono: il formato del valore distingue le date
+      const name = line.slice(0, separator).split(';')[0].toUpperCase();
+      event[name] = line.slice(separator + 1).trim();
+    }
+  }
+  return holidays;
+}
+
+// Letto una volta all'avvio; gli errori indicano il file e cosa non va
+export function loadHolidayCalendar(file: string): Holiday[] {
+  let ics: string;
+  try {
+    ics = readFileSync(file, 'utf8');
+  } catch (error) {
+    throw new Error(`Cannot read HOLIDAYS_FILE ${file}: ${(error as Error).message}`);
+  }
+  try {
+    return parseHolidayCalendar(ics);
+  } catch (error) {
+    throw new Error(`Invalid HOLIDAYS_FILE ${file}: ${(error as Error).message}`);
+  }
+}
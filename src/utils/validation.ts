@@ -1,11 +1,19 @@
 import { z } from 'zod';
-// import { McpError } from '@modelcontextprotocol/sdk/types.js'; // Sostituire con errore custom se serve
+import { ValidationError } from './errors.js';
+import { CalendarSettings, DateBounds, SYSTEM_TIME_ZONE, capAtToday, isoWeekRange, monthRange, quarterRange, relativePeriod, resolveDateTime, shiftDays, today } from './dates.js';
 
 export const DateSchema = z.string().refine(
   (date) => !isNaN(Date.parse(date)),
   'Invalid date format. Use ISO 8601 format (YYYY-MM-DD)'
 );
 
+// Un giorno di calendario reale scritto come YYYY-MM-DD: "2025-9-1", "Sep 1 2025" o "2025-02-30" sono
+// rifiutati, perché i giorni sono confrontati come stringhe e inviati all'API così come sono
+export const CalendarDateSchema = z.string().refine(
+  (date) => /^\d{4}-\d{2}-\d{2}$/.test(date) && shiftDays(date, 0) === date,
+  'Invalid date. Use YYYY-MM-DD'
+);
+
 export const DateRangeSchema = z.object({
   startDate: DateSchema,
   endDate: DateSchema
@@ -14,11 +22,151 @@ export const DateRangeSchema = z.object({
   'End date must be after or equal to start date'
 );
 
+// Accettate ovunque un tool o un prompt prende una data, oltre a YYYY-MM-DD
+export const DATE_EXPRESSIONS = 'YYYY-MM-DD, today, yesterday, this_week, last_week, this_month, last_month, ' +
+  'this_quarter, last_quarter, this_year, last_year, last_N_days, YYYY-MM, YYYY-Qn or an ISO week like 2025-W36';
+
+// Intervallo assoluto a cui si è risolta una data; `expression` riporta l'input se era relativo
+export interface ResolvedDateRange extends DateBounds {
+  expression?: string;
+}
+
+const MAX_RELATIVE_DAYS = 366; // Limite massimo per last_N_days
+
+const RELATIVE_PERIOD = /^(this|last)_(week|month|quarter|year)$/;
+const LAST_N_DAYS = /^last_(\d{1,3})_days?$/;
+const MONTH = /^(\d{4})-(0[1-9]|1[0-2])$/;
+const QUARTER = /^(\d{4})-?q([1-4])$/;
+const ISO_WEEK = /^(\d{4})-?w(\d{1,2})$/;
+
+// Risolve una data nei giorni che copre, nel calendario dell'utente:
+// "2025-09-01" è un giorno, "last_week" o "2025-Q3" un periodo intero (tagliato a oggi se è in corso).
+// Sono accettate anche forme naturali come "last 7 days" o "This-Month".
+export function resolveDateExpression(value: string, calendar: CalendarSettings, now: Date = new Date()): DateBounds {
+  const expression = value.trim().toLowerCase().replace(/[\s_]+/g, '_');
+  const current = today(calendar.timeZone, now);
+  const words = expression.replace(/-/g, '_');
+
+  if (words === 'today') return { startDate: current, endDate: current };
+  if (words === 'yesterday') return { startDate: shiftDays(current, -1), endDate: shiftDays(current, -1) };
+
+  const relative = RELATIVE_PERIOD.exec(words);
+  if (relative) {
+    return relativePeriod(relative[2] as 'week' | 'month' | 'quarter' | 'year', relative[1] === 'this' ? 0 : -1, calendar, now);
+  }
+
+  const lastDays = LAST_N_DAYS.exec(words);
+  if (lastDays) {
+    const days = parseInt(lastDays[1]);
+    if (days < 1 || days > MAX_RELATIVE_DAYS) {
+      throw new ValidationError(`last_N_days supports 1 to ${MAX_RELATIVE_DAYS} days`, { value });
+    }
+    return { startDate: shiftDays(current, 1 - days), endDate: current }; // oggi compreso
+  }
+
+  const month = MONTH.exec(expression);
+  if (month) return capAtToday(monthRange(+month[1], +month[2]), current);
+
+  const quarter = QUARTER.exec(expression);
+  if (quarter) return capAtToday(quarterRange(+quarter[1], +quarter[2]), current);
+
+  const week = ISO_WEEK.exec(expression);
+  if (week) {
+    const bounds = isoWeekRange(+week[1], +week[2]);
+    if (!bounds) {
+      throw new ValidationError(`${value} is not an ISO week of ${week[1]}`, { value });
+    }
+    return capAtToday(bounds, current);
+  }
+
+  const date = CalendarDateSchema.safeParse(value.trim());
+  if (!date.success) {
+    throw new ValidationError(`Invalid date "${value}". Use ${DATE_EXPRESSIONS}`, { value });
+  }
+  return { startDate: date.data, endDate: date.data };
+}
+
+// Una coppia inizio/fine in cui ciascun lato può essere un'espressione: l'intervallo va dall'inizio del
+// periodo di startDate alla fine di quello di endDate. Senza endDate si usa solo il periodo di startDate.
+export function resolveDateRange(
+  startDate: string,
+  endDate: string | undefined,
+  calendar: CalendarSettings,
+  now: Date = new Date()
+): ResolvedDateRange {
+  const range = {
+    startDate: resolveDateExpression(startDate, calendar, now).startDate,
+    endDate: resolveDateExpression(endDate ?? startDate, calendar, now).endDate
+  };
+  const validated = validateInput(DateRangeSchema, range);
+  const literal = validated.startDate === startDate && validated.endDate === (endDate ?? startDate);
+  return literal ? validated : { ...validated, expression: endDate && endDate !== startDate ? `${startDate} to ${endDate}` : startDate };
+}
+
+// Un solo giorno, es. "yesterday"; le espressioni che coprono più giorni sono rifiutate
+export function resolveDay(value: string, calendar: CalendarSettings, now: Date = new Date()): ResolvedDateRange {
+  const range = resolveDateExpression(value, calendar, now);
+  if (range.startDate !== range.endDate) {
+    throw new ValidationError(`"${value}" covers ${range.startDate} → ${range.endDate}; a single day is required here`, { value });
+  }
+  return range.startDate === value ? range : { ...range, expression: value };
+}
+
+// Le time entry riusano DateRangeSchema su date-ora complete e devono anche avere durata non nulla.
+// Le date-ora senza offset sono lette nel fuso dell'utente.
+export function validateTimeRange(startTime: string, endTime: string, timeZone: string = SYSTEM_TIME_ZONE): { startTime: string; endTime: string } {
+  const range = validateInput(DateRangeSchema, {
+    startDate: resolveDateTime(startTime, timeZone),
+    endDate: resolveDateTime(endTime, timeZone)
+  });
+  if (new Date(range.startDate).getTime() === new Date(range.endDate).getTime()) {
+    throw new ValidationError('endTime must be after startTime', { startTime, endTime });
+  }
+  return { startTime: range.startDate, endTime: range.endDate };
+}
+
 export const PaginationSchema = z.object({
   limit: z.number().min(1).max(100).default(50),
   cursor: z.string().optional()
 });
 
+export const ProjectColorSchema = z.string().regex(
+  /^#[0-9a-fA-F]{6}$/,
+  'Invalid color. Use a hex color like #3B82F6'
+);
+
+export const ProjectUpdateSchema = z.object({
+  name: z.string().min(1).max(100).optional(),
+  description: z.string().optional(),
+  color: ProjectColorSchema.optional()
+}).refine(
+  (data) => data.name !== undefined || data.description !== undefined || data.color !== undefined,
+  'Provide at least one of name, description or color'
+);
+
+export const GoalMetricSchema = z.enum(['focus', 'meetings', 'breaks', 'sessions', 'project']);
+
+export const GoalPeriodSchema = z.enum(['day', 'workday', 'week', 'month']);
+
+export const GoalSchema = z.object({
+  metric: GoalMetricSchema,
+  target: z.number().positive('The target must be greater than 0'),
+  period: GoalPeriodSchema,
+  direction: z.enum(['at_least', 'at_most']),
+  projectId: z.string().min(1).optional(),
+  name: z.string().min(1).max(100).optional()
+}).refine(
+  (goal) => (goal.metric === 'project') === (goal.projectId !== undefined),
+  'projectId is required for project goals and only allowed for them'
+).refine(
+  (goal) => goal.metric !== 'sessions' || Number.isInteger(goal.target),
+  'Session goals need a whole number of sessions'
+);
+
+export const SessionTypeSchema = z.enum(['focus', 'break']).default('focus');
+
+export const SessionDurationSchema = z.number().int().min(1).max(480);
+
 export const TimeframeSchema = z.enum(['day', 'week', 'month']);
 
 export const CategorySchema = z.enum(['work', 'personal', 'all']).default('all');
@@ -27,10 +175,10 @@ export function validateInput<T>(schema: z.ZodSchema<T>, input: unknown): T {
   try {
     return schema.parse(input);
   } catch (error) {
-    // if (error instanceof z.ZodError) {
-    //   const messages = error.errors.map(err => `${err.path.join('.')}: ${err.message}`).join(', ');
-    //   throw new McpError(-32602, `Invalid parameters: ${messages}`);
-    // }
+    if (error instanceof z.ZodError) {
+      const messages = error.errors.map(err => err.path.length > 0 ? `${err.path.join('.')}: ${err.message}` : err.message).join(', ');
+      throw new ValidationError(`Invalid parameters: ${messages}`);
+    }
     throw error;
   }
 }
@@ -73,9 +73,9 @@ class RizeApiTester {
           focusTime: m.totalFocusTime,
           score: m.productivityScore,
           topCategory: m.topCategory.name + ' - ' + m.topCategory.timeSpent + 'm',
+          focusSessions: m.focusSessionsCount,
           breakTime: m.breakTime,
-          distractionTime: m.distractionTime,
-          contextSwitches: m.contextSwitches
+          meetingTime: m.meetingTime
         }))
       });
     } catch (error) {
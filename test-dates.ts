@@ -0,0 +1,153 @@
+#!/usr/bin/env tsx
+
+/**
+ * Test unitari per le date nel fuso dell'utente (giorni di calendario, confini di giornata, cambi d'ora)
+ */
+
+import assert from 'node:assert/strict';
+import { dayBoundsInZone, dayInZone, dateTimeInZone, getComparisonPeriods, previousMonthBounds, resolveDateTime, shiftDays, startOfDayInZone, today } from './src/utils/dates.js';
+import { formatDate, formatDateTime } from './src/utils/formatting.js';
+import { resolveDateExpression, resolveDateRange, resolveDay } from './src/utils/validation.js';
+
+const ROME = { timeZone: 'Europe/Rome', weekStartsOn: 1 } as const;
+const NOW = new Date('2025-09-10T22:30:00Z'); // giovedì 11 settembre a Roma, ancora mercoledì in UTC
+
+const tests: Array<[string, () => void]> = [
+  ['sessione serale assegnata al giorno del fuso, non a quello UTC', () => {
+    assert.equal(dayInZone('2025-09-05T22:30:00Z', 'Europe/Rome'), '2025-09-06');
+    assert.equal(dayInZone('2025-09-05T22:30:00Z', 'UTC'), '2025-09-05');
+    assert.equal(dayInZone('2025-09-05 23:30:00 +0200', 'America/New_York'), '2025-09-05');
+    assert.equal(today('Asia/Tokyo', new Date('2025-09-05T16:00:00Z')), '2025-09-06');
+  }],
+
+  ['timestamp Rize mostrati nel fuso configurato', () => {
+    assert.equal(dateTimeInZone('2025-09-05 04:00:00 +0200', 'UTC'), '2025-09-05 02:00:00');
+    assert.equal(formatDateTime('2025-09-05 04:00:00 +0200', 'Asia/Kolkata'), '2025-09-05 07:30:00');
+    assert.equal(formatDate('2025-09-05 01:00:00 +0200', 'America/Los_Angeles'), '2025-09-04');
+    assert.equal(formatDate('2025-09-05', 'Pacific/Kiritimati'), '2025-09-05'); // già un giorno di calendario
+    assert.equal(formatDateTime('not a date', 'UTC'), 'Invalid DateTime');
+  }],
+
+  ['ora legale (primavera): giornata di 23 ore', () => {
+    assert.deepEqual(dayBoundsInZone('2025-03-30', '2025-03-30', 'Europe/Rome'), {
+      startTime: '2025-03-29T23:00:00.000Z',
+      endTime: '2025-03-30T21:59:59.999Z'
+    });
+    assert.deepEqual(dayBoundsInZone('2025-03-09', '2025-03-09', 'America/New_York'), {
+      startTime: '2025-03-09T05:00:00.000Z',
+      endTime: '2025-03-10T03:59:59.999Z'
+    });
+  }],
+
+  ['ora solare (autunno): giornata di 25 ore', () => {
+    assert.deepEqual(dayBoundsInZone('2025-10-26', '2025-10-26', 'Europe/Rome'), {
+      startTime: '2025-10-25T22:00:00.000Z',
+      endTime: '2025-10-26T22:59:59.999Z'
+    });
+    assert.deepEqual(dayBoundsInZone('2025-11-02', '2025-11-02', 'America/New_York'), {
+      startTime: '2025-11-02T04:00:00.000Z',
+      endTime: '2025-11-03T04:59:59.999Z'
+    });
+  }],
+
+  ['mezzanotte saltata dal cambio d\'ora (America/Santiago)', () => {
+    // 2024-09-08 00:00 non esiste: gli orologi passano a 01:00
+    assert.equal(startOfDayInZone('2024-09-08', 'America/Santiago').toISOString(), '2024-09-08T04:00:00.000Z');
+    // 2025-04-06: a mezzanotte si torna alle 23:00 del giorno prima, la giornata inizia alla seconda mezzanotte
+    assert.equal(startOfDayInZone('2025-04-06', 'America/Santiago').toISOString(), '2025-04-06T04:00:00.000Z');
+  }],
+
+  ['range su più giorni a cavallo del cambio d\'ora', () => {
+    const bounds = dayBoundsInZone('2025-03-29', '2025-03-31', 'Europe/Rome');
+    assert.equal(bounds.startTime, '2025-03-28T23:00:00.000Z');
+    assert.equal(bounds.endTime, '2025-03-31T21:59:59.999Z');
+  }],
+
+  ['date-time senza offset letti nel fuso dell\'utente', () => {
+    assert.equal(resolveDateTime('2025-09-22T09:00:00', 'Europe/Rome'), '2025-09-22T07:00:00.000Z');
+    assert.equal(resolveDateTime('2025-09-22T09:00:00+05:00', 'Europe/Rome'), '2025-09-22T09:00:00+05:00');
+    assert.equal(resolveDateTime('2025-09-22T09:00:00Z', 'Europe/Rome'), '2025-09-22T09:00:00Z');
+    // 02:30 non esiste il 30 marzo: diventa 03:30 CEST
+    assert.equal(resolveDateTime('2025-03-30T02:30', 'Europe/Rome'), '2025-03-30T01:30:00.000Z');
+    // 02:30 del 26 ottobre esiste due volte: vale la prima (CEST)
+    assert.equal(resolveDateTime('2025-10-26T02:30:00', 'Europe/Rome'), '2025-10-26T00:30:00.000Z');
+  }],
+
+  ['aritmetica sui giorni indipendente dal fuso', () => {
+    assert.equal(shiftDays('2025-03-30', 1), '2025-03-31');
+    assert.equal(shiftDays('2025-10-26', -1), '2025-10-25');
+    assert.equal(shiftDays('2024-02-28', 1), '2024-02-29');
+    assert.equal(shiftDays('2025-01-01', -1), '2024-12-31');
+  }],
+
+  ['periodi di confronto calcolati su "oggi" nel fuso dell\'utente', () => {
+    const now = new Date('2025-09-07T23:30:00Z'); // domenica sera UTC, già lunedì a Roma
+    assert.deepEqual(getComparisonPeriods('day', { timeZone: 'Europe/Rome', weekStartsOn: 0 }, now).current, { startDate: '2025-09-08', endDate: '2025-09-08' });
+    assert.deepEqual(getComparisonPeriods('day', { timeZone: 'UTC', weekStartsOn: 0 }, now).current, { startDate: '2025-09-07', endDate: '2025-09-07' });
+    assert.deepEqual(getComparisonPeriods('month', { timeZone: 'Pacific/Auckland', weekStartsOn: 0 }, new Date('2025-09-30T13:00:00Z')).current,
+      { startDate: '2025-10-01', endDate: '2025-10-01' });
+  }],
+
+  ['espressioni relative risolte su oggi nel fuso e inizio settimana configurati', () => {
+    assert.deepEqual(resolveDateExpression('today', ROME, NOW), { startDate: '2025-09-11', endDate: '2025-09-11' });
+    assert.deepEqual(resolveDateExpression('yesterday', ROME, NOW), { startDate: '2025-09-10', endDate: '2025-09-10' });
+    assert.deepEqual(resolveDateExpression('this_week', ROME, NOW), { startDate: '2025-09-08', endDate: '2025-09-11' });
+    assert.deepEqual(resolveDateExpression('last week', ROME, NOW), { startDate: '2025-09-01', endDate: '2025-09-07' });
+    assert.deepEqual(resolveDateExpression('last_week', { ...ROME, weekStartsOn: 0 }, NOW), { startDate: '2025-08-31', endDate: '2025-09-06' });
+    assert.deepEqual(resolveDateExpression('last_month', ROME, NOW), { startDate: '2025-08-01', endDate: '2025-08-31' });
+    assert.deepEqual(resolveDateExpression('Last-7-Days', ROME, NOW), { startDate: '2025-09-05', endDate: '2025-09-11' });
+    assert.deepEqual(resolveDateExpression('last_quarter', ROME, NOW), { startDate: '2025-04-01', endDate: '2025-06-30' });
+    assert.deepEqual(resolveDateExpression('this_year', ROME, NOW), { startDate: '2025-01-01', endDate: '2025-09-11' });
+  }],
+
+  ['trimestri, mesi e settimane ISO', () => {
+    assert.deepEqual(resolveDateExpression('2025-Q2', ROME, NOW), { startDate: '2025-04-01', endDate: '2025-06-30' });
+    assert.deepEqual(resolveDateExpression('2025-Q3', ROME, NOW), { startDate: '2025-07-01', endDate: '2025-09-11' }); // in corso
+    assert.deepEqual(resolveDateExpression('2024-02', ROME, NOW), { startDate: '2024-02-01', endDate: '2024-02-29' });
+    assert.deepEqual(resolveDateExpression('2025-W01', ROME, NOW), { startDate: '2024-12-30', endDate: '2025-01-05' });
+    assert.deepEqual(resolveDateExpression('2020-W53', ROME, NOW), { startDate: '2020-12-28', endDate: '2021-01-03' });
+    assert.throws(() => resolveDateExpression('2025-W53', ROME, NOW), /not an ISO week/);
+    assert.throws(() => resolveDateExpression('next_week', ROME, NOW), /Invalid date/);
+    assert.deepEqual(resolveDateExpression('2025-W5', ROME, NOW), { startDate: '2025-01-27', endDate: '2025-02-02' });
+    assert.deepEqual(resolveDateExpression('2025w5', ROME, NOW), { startDate: '2025-01-27', endDate: '2025-02-02' });
+    assert.throws(() => resolveDateExpression('2025-W0', ROME, NOW), /not an ISO week/);
+    // Mese precedente: intero se il mese corrente è concluso, altrimenti fino allo stesso giorno
+    assert.deepEqual(previousMonthBounds({ startDate: '2025-03-01', endDate: '2025-03-31' }), { startDate: '2025-02-01', endDate: '2025-02-28' });
+    assert.deepEqual(previousMonthBounds({ startDate: '2025-02-01', endDate: '2025-02-28' }), { startDate: '2025-01-01', endDate: '2025-01-31' });
+    assert.deepEqual(previousMonthBounds({ startDate: '2025-03-01', endDate: '2025-03-30' }), { startDate: '2025-02-01', endDate: '2025-02-28' });
+    assert.deepEqual(previousMonthBounds({ startDate: '2025-01-01', endDate: '2025-01-11' }), { startDate: '2024-12-01', endDate: '2024-12-11' });
+  }],
+
+  ['range con espressioni su uno o entrambi gli estremi', () => {
+    assert.deepEqual(resolveDateRange('last_month', undefined, ROME, NOW),
+      { startDate: '2025-08-01', endDate: '2025-08-31', expression: 'last_month' });
+    assert.deepEqual(resolveDateRange('2025-Q3', 'yesterday', ROME, NOW),
+      { startDate: '2025-07-01', endDate: '2025-09-10', expression: '2025-Q3 to yesterday' });
+    assert.deepEqual(resolveDateRange('2025-09-01', '2025-09-07', ROME, NOW), { startDate: '2025-09-01', endDate: '2025-09-07' });
+    assert.throws(() => resolveDateRange('today', 'last_month', ROME, NOW), /End date must be after/);
+    assert.deepEqual(resolveDay('yesterday', ROME, NOW), { startDate: '2025-09-10', endDate: '2025-09-10', expression: 'yesterday' });
+    assert.throws(() => resolveDay('last_week', ROME, NOW), /single day/);
+  }],
+
+  ['date non nel formato YYYY-MM-DD o inesistenti rifiutate', () => {
+    for (const value of ['2025-9-1', 'Sep 1 2025', '1', '2025-02-30', '2025-09-01T23:30:00+02:00']) {
+      assert.throws(() => resolveDateExpression(value, ROME, NOW), /Invalid date/, value);
+      assert.throws(() => resolveDateRange('2025-08-01', value, ROME, NOW), /Invalid date/, value);
+    }
+    assert.deepEqual(resolveDateExpression(' 2024-02-29 ', ROME, NOW), { startDate: '2024-02-29', endDate: '2024-02-29' });
+  }]
+];
+
+let failed = 0;
+for (const [name, fn] of tests) {
+  try {
+    fn();
+    console.log(`✅ ${name}`);
+  } catch (error) {
+    failed++;
+    console.log(`❌ ${name}: ${(error as Error).message}`);
+  }
+}
+
+console.log(`\n${tests.length - failed}/${tests.length} test superati`);
+process.exit(failed > 0 ? 1 : 0);
@@ -0,0 +1,160 @@
+#!/usr/bin/env tsx
+
+/**
+ * Test degli obiettivi: ritmo nel periodo corrente, proiezioni, streak e salvataggio su disco
+ */
+
+import assert from 'node:assert/strict';
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { GoalStore } from './src/services/goal-store.js';
+import { CalendarSettings } from './src/utils/dates.js';
+import { dailyGoalValues, evaluateGoal, goalDataRange } from './src/utils/goals.js';
+import { describeGoal } from './src/utils/formatting.js';
+import { DEFAULT_SCHEDULE } from './src/utils/schedule.js';
+import { GoalSchema } from './src/utils/validation.js';
+import { RizeGoal, RizeTimeEntry } from './src/types/rize.js';
+
+const CALENDAR: CalendarSettings = { timeZone: 'Europe/Rome', weekStartsOn: 1 };
+// Mercoledì alle 13:00 a Roma: metà della giornata lavorativa 09:00-17:00 e metà della settimana lavorativa
+const NOW = new Date('2025-09-17T11:00:00Z');
+
+function goal(overrides: Partial<RizeGoal>): RizeGoal {
+  return {
+    id: 'g1',
+    metric: 'focus',
+    target: 600,
+    period: 'week',
+    direction: 'at_least',
+    createdAt: '2025-09-01T00:00:00.000Z',
+    updatedAt: '2025-09-01T00:00:00.000Z',
+    ...overrides
+  };
+}
+
+function values(days: Record<string, number>): Map<string, number> {
+  return new Map(Object.entries(days));
+}
+
+function timeEntry(id: string, startTime: string, duration: number, projectId?: string, isManual: boolean = false): RizeTimeEntry {
+  return { id, userId: '', projectId, startTime, duration, category: 'Project', isManual };
+}
+
+const tests: Array<[string, () => void | Promise<void>]> = [
+  ['obiettivo settimanale: ritmo sui giorni lavorativi, completamento previsto e streak', () => {
+    const progress = evaluateGoal(goal({}), values({
+      '2025-09-08': 300, '2025-09-10': 300, // settimana precedente: 10h, raggiunto
+      '2025-09-01': 300, // due settimane fa: 5h, mancato
+      '2025-09-15': 120, '2025-09-16': 120, '2025-09-17': 60
+    }), CALENDAR, DEFAULT_SCHEDULE, NOW);
+    assert.equal(progress.startDate, '2025-09-15');
+    assert.equal(progress.endDate, '2025-09-21');
+    assert.equal(progress.actual, 300);
+    assert.equal(progress.elapsed, 0.5);
+    assert.equal(progress.expected, 300);
+    assert.equal(progress.projected, 600);
+    assert.equal(progress.status, 'on_track');
+    assert.equal(progress.projectedCompletion, '2025-09-19');
+    assert.equal(progress.streak, 1);
+    assert.equal(progress.recent.length, 8);
+    assert.deepEqual(progress.recent.slice(0, 2).map(result => result.met), [true, false]);
+  }],
+
+  ['obiettivo per giorno lavorativo: orario previsto, streak senza weekend, giorno libero', () => {
+    const workday = goal({ period: 'workday', target: 240 });
+    const history = { '2025-09-16': 240, '2025-09-15': 300, '2025-09-13': 0, '2025-09-12': 100 };
+    const progress = evaluateGoal(workday, values({ ...history, '2025-09-17': 180 }), CALENDAR, DEFAULT_SCHEDULE, NOW);
+    assert.equal(progress.status, 'on_track');
+    assert.equal(progress.projected, 360);
+    assert.equal(progress.projectedCompletion, '2025-09-17 14:20');
+    assert.equal(progress.streak, 2);
+    assert.deepEqual(progress.recent.slice(0, 3).map(result => result.startDate), ['2025-09-16', '2025-09-15', '2025-09-12']);
+
+    const achieved = evaluateGoal(workday, values({ ...history, '2025-09-17': 250 }), CALENDAR, DEFAULT_SCHEDULE, NOW);
+    assert.equal(achieved.status, 'achieved');
+    assert.equal(achieved.projectedCompletion, null);
+    assert.equal(achieved.streak, 3);
+
+    const saturday = evaluateGoal(workday, values(history), CALENDAR, DEFAULT_SCHEDULE, new Date('2025-09-20T09:00:00Z'));
+    assert.equal(saturday.status, 'day_off');
+  }],
+
+  ['limite massimo: in linea, a rischio, superato', () => {
+    const limit = goal({ metric: 'meetings', direction: 'at_most' });
+    const status = (days: Record<string, number>) => evaluateGoal(limit, values(days), CALENDAR, DEFAULT_SCHEDULE, NOW).status;
+    assert.equal(status({ '2025-09-15': 200, '2025-09-16': 100 }), 'on_track');
+    assert.equal(status({ '2025-09-15': 200, '2025-09-16': 100, '2025-09-17': 100 }), 'at_risk');
+    assert.equal(status({ '2025-09-15': 700 }), 'exceeded');
+    // Senza meeting nelle settimane precedenti il limite è sempre rispettato
+    assert.equal(evaluateGoal(limit, values({}), CALENDAR, DEFAULT_SCHEDULE, NOW).streak, 8);
+  }],
+
+  ['valori giornalieri di progetto sul giorno locale e range dei dati', () => {
+    const project = goal({ metric: 'project', projectId: 'p1', period: 'month', target: 1200 });
+    const entries = [
+      timeEntry('a', '2025-09-16 23:30:00 +0000', 90, 'p1'), // 01:30 del 17 a Roma
+      timeEntry('b', '2025-09-17 08:00:00 +0200', 30, 'p1'),
+      timeEntry('c', '2025-09-17 10:00:00 +0200', 60, 'p2'),
+      // Inserita a mano: nessuna sessione di Rize corrisponde, ma il tempo conta per il progetto
+      timeEntry('d', '2025-09-15 14:00:00 +0200', 45, 'p1', true)
+    ];
+    assert.deepEqual(Array.from(dailyGoalValues(project, [], entries, CALENDAR.timeZone)), [['2025-09-17', 120], ['2025-09-15', 45]]);
+    assert.deepEqual(goalDataRange(project, CALENDAR, DEFAULT_SCHEDULE, NOW), { startDate: '2025-06-01', endDate: '2025-09-17' });
+    assert.deepEqual(goalDataRange(goal({}), CALENDAR, DEFAULT_SCHEDULE, NOW), { startDate: '2025-07-21', endDate: '2025-09-17' });
+    // 12 giorni lavorativi e mezzo su 22 a settembre
+    assert.equal(evaluateGoal(project, values({ '2025-09-17': 120 }), CALENDAR, DEFAULT_SCHEDULE, NOW).elapsed, 12.5 / 22);
+  }],
+
+  ['validazione e descrizione degli obiettivi', () => {
+    const base = { metric: 'focus', target: 240, period: 'workday', direction: 'at_least' };
+    assert.equal(GoalSchema.safeParse(base).success, true);
+    assert.equal(GoalSchema.safeParse({ ...base, metric: 'project' }).success, false);
+    assert.equal(GoalSchema.safeParse({ ...base, projectId: 'p1' }).success, false);
+    assert.equal(GoalSchema.safeParse({ ...base, metric: 'sessions', target: 2.5 }).success, false);
+    assert.equal(describeGoal(goal({ period: 'workday', target: 240 })), 'Focus ≥ 4h 0m per working day');
+    assert.equal(describeGoal(goal({ metric: 'project', projectId: 'p1', projectName: 'Website', direction: 'at_most', period: 'month', target: 1200 })),
+      'Project Website ≤ 20h 0m per month');
+  }],
+
+  ['obiettivi salvati su disco e riletti da un nuovo store', async () => {
+    const directory = await mkdtemp(join(tmpdir(), 'rize-goals-'));
+    try {
+      const store = new GoalStore(join(directory, 'profiles', 'work'));
+      await Promise.all([store.save(goal({ id: 'a' })), store.save(goal({ id: 'b', createdAt: '2025-09-02T00:00:00.000Z' }))]);
+      await store.save(goal({ id: 'a', target: 900 }));
+
+      const reopened = new GoalStore(join(directory, 'profiles', 'work'));
+      assert.deepEqual((await reopened.list()).map(saved => [saved.id, saved.target]), [['a', 900], ['b', 600]]);
+      assert.equal((await reopened.delete('a'))?.id, 'a');
+      assert.equal(await reopened.delete('a'), undefined);
+
+      const file = JSON.parse(await readFile(join(directory, 'profiles', 'work', 'goals.json'), 'utf8'));
+      assert.deepEqual(file.map((saved: RizeGoal) => saved.id), ['b']);
+      assert.equal(new GoalStore().location, 'memory');
+    } finally {
+      await rm(directory, { recursive: true, force: true });
+    }
+  }]
+];
+
+async function main(): Promise<void> {
+  let failed = 0;
+  for (const [name, fn] of tests) {
+    try {
+      await fn();
+      console.log(`✅ ${name}`);
+    } catch (error) {
+      failed++;
+      console.log(`❌ ${name}: ${(error as Error).message}`);
+    }
+  }
+
+  console.log(`\n${tests.length - failed}/${tests.length} test superati`);
+  process.exit(failed > 0 ? 1 : 0);
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
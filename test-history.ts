@@ -0,0 +1,310 @@
+#!/usr/bin/env tsx
+
+/**
+ * Test dello storico su disco: sincronizzazione incrementale, lettura locale dei giorni conclusi e uso offline
+ */
+
+import assert from 'node:assert/strict';
+import { createServer, ServerResponse } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { format, subDays } from 'date-fns';
+import { DataChange, RizeApiService } from './src/services/rize-api.js';
+import { HistoryStore, enumerateDays } from './src/services/history-store.js';
+import { productivityScore } from './src/utils/analytics.js';
+
+let online = true;
+let queries: Array<{ operation: string; variables: any }> = [];
+let focusSeconds = 3600;
+let timeEntries: Array<{ id: string; startTime: string; endTime: string; source: string }> = [];
+
+const server = createServer((req, res) => {
+  let raw = '';
+  req.on('data', chunk => (raw += chunk));
+  req.on('end', () => {
+    const body = JSON.parse(raw || '{}');
+    const operation = /(?:query|mutation) (\w+)/.exec(body.query)?.[1] ?? 'unknown';
+    queries.push({ operation, variables: body.variables });
+    if (!online) return reply(res, 503, {});
+    if (operation === 'GetSummaries') {
+      const days = enumerateDays(body.variables.startDate, body.variables.endDate);
+      return reply(res, 200, { data: { summaries: { buckets: days.map(bucket) } } });
+    }
+    if (operation === 'GetSessions') {
+      const days = enumerateDays(body.variables.startTime.slice(0, 10), format(new Date(body.variables.endTime), 'yyyy-MM-dd'));
+      return reply(res, 200, { data: { sessions: days.map(session) } });
+    }
+    if (operation === 'GetTimeEntries') {
+      return reply(res, 200, { data: { projectTimeEntries: timeEntries } });
+    }
+    if (operation === 'UpdateTimeEntry') {
+      const { id, ...changes } = body.variables.input.args;
+      const entry = { id, source: 'manual', ...timeEntries.find(existing => existing.id === id), ...changes };
+      return reply(res, 200, { data: { updateProjectTimeEntry: { projectTimeEntry: entry } } });
+    }
+    if (operation === 'CreateTimeEntry') {
+      const { startTime, endTime } = body.variables.input.args;
+      return reply(res, 200, { data: { createProjectTimeEntry: { projectTimeEntry: { id: 'te-1', startTime, endTime, source: 'manual' } } } });
+    }
+    reply(res, 400, { errors: [{ message: `Unexpected operation ${operation}` }] });
+  });
+});
+
+function reply(res: ServerResponse, status: number, payload: unknown) {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(payload));
+}
+
+function bucket(date: string) {
+  return { date, focusTime: focusSeconds, breakTime: 600, meetingTime: 1200, trackedTime: 7200, categories: [] };
+}
+
+function session(date: string) {
+  return { id: `s-${date}`, startTime: `${date}T10:00:00`, endTime: `${date}T11:00:00`, title: 'Deep work', type: 'focus', projects: [] };
+}
+
+function daysAgo(days: number): string {
+  return format(subDays(new Date(), days), 'yyyy-MM-dd');
+}
+
+async function main() {
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const endpoint = `http://127.0.0.1:${(server.address() as AddressInfo).port}/graphql`;
+  const historyDir = await mkdtemp(join(tmpdir(), 'rize-history-'));
+
+  // Ogni test usa un servizio nuovo (cache in memoria vuota): i dati possono arrivare solo dal disco o dall'API
+  const api = (withHistory: boolean = true) => new RizeApiService('test-key', {
+    endpoint,
+    historyDir: withHistory ? historyDir : undefined,
+    retry: { retries: 0, baseDelayMs: 0, maxDelayMs: 0 }
+  });
+
+  const tests: Array<[string, () => Promise<void>]> = [
+    ['primo accesso scarica e salva i giorni conclusi', async () => {
+      const metrics = await api().getSummaries(daysAgo(10), daysAgo(8));
+      assert.equal(metrics.length, 3);
+      assert.equal(metrics[0].totalFocusTime, 60);
+      assert.deepEqual(queries.map(query => query.operation), ['GetSummaries', 'GetSessions']);
+      const lines = (await readFile(join(historyDir, 'history.jsonl'), 'utf8')).trim().split('\n');
+      assert.equal(lines.length, 3);
+    }],
+
+    ['giorni già salvati letti da disco senza chiamate API', async () => {
+      const metrics = await api().getSummaries(daysAgo(10), daysAgo(8));
+      const sessions = await api().getFocusSessions(daysAgo(10), daysAgo(8));
+      assert.equal(metrics.length, 3);
+      assert.deepEqual(sessions.map(item => item.id), [`s-${daysAgo(10)}`, `s-${daysAgo(9)}`, `s-${daysAgo(8)}`]);
+      assert.equal(queries.length, 0);
+    }],
+
+    ['sincronizzazione incrementale: solo i giorni mancanti', async () => {
+      const result = await api().syncHistory(daysAgo(12), daysAgo(8));
+      assert.equal(result.syncedDays, 2);
+      assert.equal(result.days, 5);
+      const summaries = queries.filter(query => query.operation === 'GetSummaries');
+      assert.deepEqual(summaries.map(query => query.variables), [{ startDate: daysAgo(12), endDate: daysAgo(11), bucketSize: 'day' }]);
+    }],
+
+    ['force riscarica i giorni già salvati', async () => {
+      focusSeconds = 4200;
+      try {
+        const result = await api().syncHistory(daysAgo(12), daysAgo(11), true);
+        assert.equal(result.syncedDays, 2);
+        assert.equal(result.days, 5);
+      } finally {
+        focusSeconds = 3600;
+      }
+      queries = [];
+      const metrics = await api().getSummaries(daysAgo(12), daysAgo(11));
+      assert.deepEqual(metrics.map(metric => metric.totalFocusTime), [70, 70]);
+      assert.equal(queries.length, 0);
+    }],
+
+    ['API irraggiungibile: i giorni salvati restano disponibili', async () => {
+      online = false;
+      const metrics = await api().getSummaries(daysAgo(12), daysAgo(8));
+      assert.equal(metrics.length, 5);
+      await assert.rejects(api().getSummaries(daysAgo(14), daysAgo(8)), /temporarily unavailable/);
+      online = true;
+    }],
+
+    ['oggi e i giorni recenti non vengono mai salvati', async () => {
+      const today = daysAgo(0);
+      const result = await api().syncHistory(daysAgo(3), today);
+      assert.equal(result.syncedDays, 0);
+      const metrics = await api().getSummaries(daysAgo(8), today);
+      assert.equal(metrics.length, 9);
+      // Giorni 7-4 scaricati e salvati, giorni 3-0 sempre dall'API
+      assert.deepEqual(queries.filter(query => query.operation === 'GetSummaries').map(query => query.variables.startDate), [daysAgo(7), daysAgo(3)]);
+      queries = [];
+      await api().getSummaries(daysAgo(8), today);
+      assert.deepEqual(queries.filter(query => query.operation === 'GetSummaries').map(query => query.variables.startDate), [daysAgo(3)]);
+    }],
+
+    ['metriche derivate: sessioni dalla query sessions, meeting separato, campi non disponibili a null', async () => {
+      const [metrics] = await api(false).getSummaries(daysAgo(3), daysAgo(3));
+      assert.equal(metrics.focusSessionsCount, 1);
+      assert.equal(metrics.meetingTime, 20);
+      assert.equal(metrics.trackedTime, 120);
+      assert.equal(metrics.productivityScore, 50); // pesi di default: 60 min di focus su 120 tracciati
+      assert.equal(metrics.distractionTime, null);
+      assert.equal(metrics.contextSwitches, null);
+      assert.deepEqual(queries.map(query => query.operation), ['GetSummaries', 'GetSessions']);
+    }],
+
+    ['sessioni contate solo se servono: riusate dal chiamante o saltate', async () => {
+      const service = api(false);
+      const sessions = await service.getFocusSessions(daysAgo(2), daysAgo(2));
+      queries = [];
+      const [counted] = await service.getSummaries(daysAgo(2), daysAgo(2), { sessions });
+      assert.equal(counted.focusSessionsCount, 1);
+      assert.deepEqual(queries.map(query => query.operation), ['GetSummaries']);
+
+      queries = [];
+      const [uncounted] = await service.getSummaries(daysAgo(1), daysAgo(1), { countSessions: false });
+      assert.equal(uncounted.focusSessionsCount, null);
+      assert.deepEqual(queries.map(query => query.operation), ['GetSummaries']);
+    }],
+
+    ['pesi del productivity score configurabili', async () => {
+      const weighted = new RizeApiService('test-key', {
+        endpoint,
+        retry: { retries: 0, baseDelayMs: 0, maxDelayMs: 0 },
+        scoreWeights: { focus: 1, meeting: 0.5, break: 0.5, idle: 0 }
+      });
+      const [metrics] = await weighted.getSummaries(daysAgo(3), daysAgo(3));
+      assert.equal(metrics.productivityScore, 63); // (60 + 20 × 0.5 + 10 × 0.5) / 120
+      const idle = [{ name: 'Away', timeSpent: 60, focus: false, work: false, idle: true }];
+      assert.equal(productivityScore({ totalFocusTime: 60, meetingTime: 0, breakTime: 0, trackedTime: 120, categories: idle }, { focus: 1, meeting: 0, break: 0, idle: -1 }), 0);
+      assert.equal(productivityScore({ totalFocusTime: 0, meetingTime: 0, breakTime: 0, trackedTime: 0, categories: [] }), 0);
+    }],
+
+    ['giorni salvati prima di meetingTime corretti in lettura', async () => {
+      const legacyDir = await mkdtemp(join(tmpdir(), 'rize-history-legacy-'));
+      const date = daysAgo(20);
+      const focus = (id: string, type: string) => ({ id, userId: '', startTime: `${date}T09:00:00`, category: type, isActive: false });
+      await writeFile(join(legacyDir, 'history.jsonl'), JSON.stringify({
+        date,
+        metrics: {
+          date, totalFocusTime: 60, productivityScore: 50, focusSessionsCount: 1, topCategory: { name: 'Work', timeSpent: 60 },
+          breakTime: 10, distractionTime: 20, contextSwitches: 0, categories: []
+        },
+        sessions: [focus('a', 'Focus'), focus('b', 'Focus'), focus('c', 'Break')],
+        syncedAt: new Date().toISOString()
+      }) + '\n');
+      const legacy = new RizeApiService('test-key', { endpoint, historyDir: legacyDir, scoreWeights: { focus: 0.5, meeting: 0, break: 0, idle: 0 } });
+      const [metrics] = await legacy.getSummaries(date, date);
+      assert.equal(metrics.meetingTime, 20);
+      assert.equal(metrics.distractionTime, null);
+      assert.equal(metrics.contextSwitches, null);
+      assert.equal(metrics.focusSessionsCount, 2);
+      assert.equal(metrics.productivityScore, 50); // senza trackedTime resta il punteggio salvato
+      assert.equal(queries.length, 0);
+      await rm(legacyDir, { recursive: true, force: true });
+    }],
+
+    ['time entry retroattiva: cache svuotata, cambiamento segnalato, giorno riscaricato', async () => {
+      const service = api();
+      const date = daysAgo(9);
+      await service.getSummaries(date, date);
+      await service.getAnalytics('week');
+      const changes: DataChange[] = [];
+      service.onDataChanged(change => changes.push(change));
+      queries = [];
+
+      await service.createTimeEntry({ startTime: `${date}T14:00:00`, endTime: `${date}T15:00:00` });
+      assert.deepEqual(changes, [
+        { namespace: 'summaries', startDate: date, endDate: date },
+        { namespace: 'sessions', startDate: date, endDate: date },
+        { namespace: 'analytics' }
+      ]);
+      const lines = (await readFile(join(historyDir, 'history.jsonl'), 'utf8')).trim().split('\n');
+      assert.deepEqual(JSON.parse(lines[lines.length - 1]), { date, stale: true });
+
+      // Solo il giorno segnato viene riscaricato; un servizio nuovo rilegge dal file la versione aggiornata
+      queries = [];
+      await service.getSummaries(daysAgo(10), daysAgo(8));
+      assert.deepEqual(queries.filter(query => query.operation === 'GetSummaries').map(query => query.variables.startDate), [date]);
+      queries = [];
+      await api().getSummaries(daysAgo(10), daysAgo(8));
+      assert.equal(queries.length, 0);
+    }],
+
+    ['time entry spostata: superati sia il giorno di partenza sia quello di arrivo', async () => {
+      const service = api();
+      const from = daysAgo(12);
+      const to = daysAgo(9);
+      await service.getSummaries(from, to);
+      timeEntries = [{ id: 'te-2', startTime: `${from}T14:00:00Z`, endTime: `${from}T15:00:00Z`, source: 'manual' }];
+      const staleLines = async () => (await readFile(join(historyDir, 'history.jsonl'), 'utf8')).trim().split('\n')
+        .map(line => JSON.parse(line)).filter(line => line.stale).map(line => line.date);
+
+      const before = (await staleLines()).length;
+      await service.updateTimeEntry('te-2', { startTime: `${to}T14:00:00Z`, endTime: `${to}T15:00:00Z` }, true);
+      assert.deepEqual((await staleLines()).slice(before).sort(), [from, to]);
+
+      // Entry non trovata attorno ai nuovi orari: gli orari precedenti sono ignoti, tutto lo storico è superato
+      await service.getSummaries(from, to);
+      timeEntries = [];
+      await service.updateTimeEntry('te-3', { startTime: `${to}T16:00:00Z`, endTime: `${to}T17:00:00Z` }, true);
+      assert.equal((await new HistoryStore(historyDir).getStats()).days, 0);
+      timeEntries = [];
+    }],
+
+    ['dati di oggi scaduti e riletti: cambiamento segnalato solo se diversi', async () => {
+      const service = new RizeApiService('test-key', {
+        endpoint,
+        retry: { retries: 0, baseDelayMs: 0, maxDelayMs: 0 },
+        cache: { maxSize: 100, ttl: 60000, pastDataTtl: 60000, todayTtl: 20 }
+      });
+      const day = daysAgo(0);
+      const changes: DataChange[] = [];
+      service.onDataChanged(change => changes.push(change));
+      const reload = async () => {
+        await new Promise(resolve => setTimeout(resolve, 40));
+        await service.getSummaries(day, day);
+      };
+
+      await service.getSummaries(day, day);
+      await reload();
+      assert.deepEqual(changes, []);
+      focusSeconds = 4200;
+      try {
+        await reload();
+      } finally {
+        focusSeconds = 3600;
+      }
+      assert.deepEqual(changes, [{ namespace: 'summaries', startDate: day, endDate: day }]);
+    }],
+
+    ['storico disattivato: sync_history rifiutata', async () => {
+      await assert.rejects(api(false).syncHistory(daysAgo(3)), /HISTORY_DIR/);
+      assert.equal(queries.length, 0);
+    }]
+  ];
+
+  let failed = 0;
+  for (const [name, fn] of tests) {
+    queries = [];
+    try {
+      await fn();
+      console.log(`✅ ${name}`);
+    } catch (error) {
+      failed++;
+      console.log(`❌ ${name}: ${(error as Error).message}`);
+    }
+  }
+
+  server.closeAllConnections();
+  server.close();
+  await rm(historyDir, { recursive: true, force: true });
+  console.log(`\n${tests.length - failed}/${tests.length} test superati`);
+  process.exit(failed > 0 ? 1 : 0);
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
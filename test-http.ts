@@ -0,0 +1,188 @@
+#!/usr/bin/env tsx
+
+/**
+ * Test del trasporto HTTP: bearer token, instradamento delle sessioni, sessioni inattive e /healthz
+ */
+
+import assert from 'node:assert/strict';
+import { Server } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { createLogger, transports } from 'winston';
+import { startHttpServer } from './src/http-server.js';
+import { HealthReport, ServerContext, createServer } from './src/server.js';
+import { RizeApiService } from './src/services/rize-api.js';
+import { ProfileRegistry } from './src/services/profiles.js';
+
+const TOKEN = 'test-token';
+const logger = createLogger({ transports: [new transports.Console({ silent: true })] });
+
+// Il servizio non viene mai chiamato: initialize e tools/list non toccano l'API di Rize
+const rizeApi = new RizeApiService('test-key', { endpoint: 'http://127.0.0.1:9/graphql' });
+const context: ServerContext = { resolveApi: () => rizeApi, profiles: [] };
+
+let healthChecks = 0;
+let closedServers = 0;
+async function checkHealth(): Promise<HealthReport> {
+  healthChecks++;
+  return {
+    status: 'healthy',
+    timestamp: new Date().toISOString(),
+    apiConnection: true,
+    version: 'test',
+    rateLimit: rizeApi.getRateLimitUsage(),
+    circuit: rizeApi.getCircuitState()
+  };
+}
+
+async function start(sessionIdleTimeoutMs?: number): Promise<{ server: Server; url: string }> {
+  const server = await startHttpServer({
+    host: '127.0.0.1',
+    port: 0,
+    authToken: TOKEN,
+    sessionIdleTimeoutMs,
+    createServer: () => {
+      const mcpServer = createServer(context, logger);
+      mcpServer.server.onclose = () => closedServers++;
+      return mcpServer;
+    },
+    checkHealth,
+    logger
+  });
+  return { server, url: `http://127.0.0.1:${(server.address() as AddressInfo).port}` };
+}
+
+function stop(server: Server): Promise<void> {
+  server.closeAllConnections();
+  return new Promise(resolve => server.close(() => resolve()));
+}
+
+function rpc(url: string, message: object, headers: Record<string, string> = {}): Promise<Response> {
+  return fetch(`${url}/mcp`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Accept: 'application/json, text/event-stream',
+      Authorization: `Bearer ${TOKEN}`,
+      ...headers
+    },
+    body: JSON.stringify({ jsonrpc: '2.0', ...message })
+  });
+}
+
+async function openSession(url: string): Promise<string> {
+  const response = await rpc(url, {
+    id: 1,
+    method: 'initialize',
+    params: { protocolVersion: '2025-03-26', capabilities: {}, clientInfo: { name: 'test-http', version: '1.0.0' } }
+  });
+  assert.equal(response.status, 200);
+  await response.text();
+  const sessionId = response.headers.get('mcp-session-id');
+  assert.ok(sessionId);
+  return sessionId;
+}
+
+async function main() {
+  const tests: Array<[string, () => Promise<void>]> = [
+    ['bearer token mancante o errato rifiutato, /healthz libero', async () => {
+      const { server, url } = await start();
+      try {
+        const missing = await rpc(url, { id: 1, method: 'tools/list' }, { Authorization: '' });
+        assert.equal(missing.status, 401);
+        assert.match(missing.headers.get('www-authenticate') ?? '', /^Bearer/);
+        assert.equal((await rpc(url, { id: 1, method: 'tools/list' }, { Authorization: 'Bearer wrong-token' })).status, 401);
+        assert.equal((await fetch(`${url}/sse`)).status, 401);
+        assert.equal((await fetch(`${url}/healthz`)).status, 200);
+      } finally {
+        await stop(server);
+      }
+    }],
+
+    ['richieste instradate alla propria sessione', async () => {
+      const { server, url } = await start();
+      try {
+        const sessionId = await openSession(url);
+        await (await rpc(url, { method: 'notifications/initialized' }, { 'Mcp-Session-Id': sessionId })).text();
+
+        const list = await rpc(url, { id: 2, method: 'tools/list' }, { 'Mcp-Session-Id': sessionId });
+        assert.equal(list.status, 200);
+        assert.match(await list.text(), /get_productivity_summary/);
+
+        const unknown = await rpc(url, { id: 3, method: 'tools/list' }, { 'Mcp-Session-Id': 'missing' });
+        assert.equal(unknown.status, 404);
+        assert.equal((await unknown.json()).error.code, -32001);
+        assert.equal((await rpc(url, { id: 4, method: 'tools/list' })).status, 400);
+      } finally {
+        await stop(server);
+      }
+    }],
+
+    ['sessione inattiva chiusa dopo il timeout', async () => {
+      const { server, url } = await start(100);
+      try {
+        closedServers = 0;
+        const sessionId = await openSession(url);
+        await new Promise(resolve => setTimeout(resolve, 300));
+        assert.equal(closedServers, 1);
+        assert.equal((await rpc(url, { id: 2, method: 'tools/list' }, { 'Mcp-Session-Id': sessionId })).status, 404);
+        const health = await (await fetch(`${url}/healthz`)).json();
+        assert.deepEqual(health.sessions, { streamableHttp: 0, sse: 0 });
+      } finally {
+        await stop(server);
+      }
+    }],
+
+    ['servizio di una API key liberato alla chiusura dell\'ultima sessione', async () => {
+      const profiles = new ProfileRegistry('default-key', {});
+      const first = profiles.forApiKey('session-key');
+      const second = profiles.forApiKey('session-key');
+      assert.equal(first.service, second.service);
+      assert.notEqual(profiles.forApiKey('other-key').service, first.service);
+      assert.equal(profiles.sessionCount, 2);
+
+      first.release();
+      first.release();
+      assert.equal(profiles.sessionCount, 2);
+      second.release();
+      assert.equal(profiles.sessionCount, 1);
+      assert.notEqual(profiles.forApiKey('session-key').service, first.service);
+    }],
+
+    ['/healthz riusa il report per qualche secondo', async () => {
+      const { server, url } = await start();
+      try {
+        healthChecks = 0;
+        await openSession(url);
+        const first = await fetch(`${url}/healthz`);
+        const second = await fetch(`${url}/healthz`);
+        assert.equal(first.status, 200);
+        assert.equal(healthChecks, 1);
+        const body = await second.json();
+        assert.equal(body.status, 'healthy');
+        assert.deepEqual(body.sessions, { streamableHttp: 1, sse: 0 });
+        assert.equal((await fetch(`${url}/healthz`, { method: 'POST' })).status, 405);
+      } finally {
+        await stop(server);
+      }
+    }]
+  ];
+
+  let failed = 0;
+  for (const [name, fn] of tests) {
+    try {
+      await fn();
+      console.log(`✅ ${name}`);
+    } catch (error) {
+      failed++;
+      console.log(`❌ ${name}: ${(error as Error).message}`);
+    }
+  }
+
+  console.log(`\n${tests.length - failed}/${tests.length} test superati`);
+  process.exit(failed > 0 ? 1 : 0);
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
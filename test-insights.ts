@@ -0,0 +1,124 @@
+#!/usr/bin/env tsx
+
+/**
+ * Test unitari per InsightsService su dati fixture (nessuna chiamata API)
+ */
+
+import assert from 'node:assert/strict';
+import { InsightsService, InsightInput } from './src/services/insights.js';
+import { RizeFocusSession, RizeProductivityMetrics } from './src/types/rize.js';
+
+const NOW = new Date('2025-09-15T12:00:00Z');
+
+function day(date: string, focus: number, meetings: number = 0): RizeProductivityMetrics {
+  return {
+    date,
+    totalFocusTime: focus,
+    productivityScore: 50,
+    focusSessionsCount: 0,
+    topCategory: { name: 'Work', timeSpent: focus },
+    breakTime: 0,
+    meetingTime: meetings,
+    distractionTime: null,
+    contextSwitches: null,
+    categories: []
+  };
+}
+
+function session(id: string, startTime: string): RizeFocusSession {
+  return { id, userId: '', startTime, category: 'Focus', isActive: false };
+}
+
+function input(overrides: Partial<InsightInput> = {}): InsightInput {
+  return {
+    timeframe: 'week',
+    metrics: [],
+    sessions: [],
+    focusTimeChange: null,
+    periods: {
+      current: { startDate: '2025-09-08', endDate: '2025-09-14', totalFocusTime: 600, averageProductivityScore: 50, activeDays: 5,
+        workingDays: 5, averageFocusPerWorkingDay: 120, nonWorkingFocusTime: 0, workingTimeFocusShare: 0.25 },
+      previous: { startDate: '2025-09-01', endDate: '2025-09-07', totalFocusTime: 1200, averageProductivityScore: 50, activeDays: 5,
+        workingDays: 5, averageFocusPerWorkingDay: 240, nonWorkingFocusTime: 0, workingTimeFocusShare: 0.5 }
+    },
+    ...overrides
+  };
+}
+
+const tests: Array<[string, () => void]> = [
+  ['nessun insight su dati neutri', () => {
+    const insights = new InsightsService().generate(input({ metrics: [day('2025-09-08', 60)] }), NOW);
+    assert.equal(insights.length, 0);
+  }],
+
+  ['calo del focus oltre soglia -> raccomandazione high', () => {
+    const insights = new InsightsService().generate(input({ focusTimeChange: -0.5 }), NOW);
+    assert.equal(insights.length, 1);
+    assert.equal(insights[0].type, 'recommendation');
+    assert.equal(insights[0].priority, 'high');
+    assert.equal(insights[0].timestamp, NOW.toISOString());
+  }],
+
+  ['calo del focus sotto soglia configurata -> nessun insight', () => {
+    const insights = new InsightsService({ focusChange: 0.6 }).generate(input({ focusTimeChange: -0.5 }), NOW);
+    assert.equal(insights.length, 0);
+  }],
+
+  ['aumento del focus -> achievement', () => {
+    const insights = new InsightsService().generate(input({ focusTimeChange: 0.3 }), NOW);
+    assert.equal(insights[0].type, 'achievement');
+    assert.equal(insights[0].category, 'focus');
+  }],
+
+  ['giornate piene di meeting', () => {
+    const metrics = [day('2025-09-08', 60, 300), day('2025-09-09', 60, 250), day('2025-09-10', 60, 30)];
+    const insights = new InsightsService().generate(input({ metrics }), NOW);
+    assert.equal(insights.length, 1);
+    assert.equal(insights[0].category, 'meetings');
+    assert.equal(insights[0].priority, 'medium');
+    assert.equal(insights[0].metadata?.days.length, 2);
+  }],
+
+  ['streak di deep work interrotta e ripresa', () => {
+    const metrics = [
+      day('2025-09-08', 200), day('2025-09-09', 190), day('2025-09-10', 20),
+      day('2025-09-11', 181), day('2025-09-12', 240), day('2025-09-13', 185)
+    ];
+    const insights = new InsightsService().generate(input({ metrics }), NOW);
+    assert.equal(insights.length, 1);
+    assert.equal(insights[0].metadata?.streakDays, 3);
+    assert.equal(insights[0].metadata?.streakEnd, '2025-09-13');
+  }],
+
+  ['sessioni notturne lette sull\'orario locale di Rize', () => {
+    const sessions = [
+      session('a', '2025-09-08 23:10:00 +0200'),
+      session('b', '2025-09-09 02:30:00 +0200'),
+      session('c', '2025-09-09 09:00:00 +0200')
+    ];
+    const insights = new InsightsService().generate(input({ sessions }), NOW);
+    assert.equal(insights.length, 1);
+    assert.deepEqual(insights[0].metadata?.sessionIds, ['a', 'b']);
+    assert.equal(insights[0].priority, 'low');
+  }],
+
+  ['ordinamento per priorità', () => {
+    const sessions = [session('a', '2025-09-08 23:10:00 +0200')];
+    const insights = new InsightsService().generate(input({ sessions, focusTimeChange: -0.5 }), NOW);
+    assert.deepEqual(insights.map(i => i.priority), ['high', 'low']);
+  }]
+];
+
+let failed = 0;
+for (const [name, fn] of tests) {
+  try {
+    fn();
+    console.log(`✅ ${name}`);
+  } catch (error) {
+    failed++;
+    console.log(`❌ ${name}: ${(error as Error).message}`);
+  }
+}
+
+console.log(`\n${tests.length - failed}/${tests.length} test superati`);
+process.exit(failed > 0 ? 1 : 0);
@@ -0,0 +1,155 @@
+#!/usr/bin/env tsx
+
+/**
+ * Test di timeout, retry e circuit breaker di RizeApiService contro un server HTTP stub locale
+ */
+
+import assert from 'node:assert/strict';
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { RizeApiService, RizeApiOptions } from './src/services/rize-api.js';
+
+type Handler = (req: IncomingMessage, res: ServerResponse, body: any) => void;
+
+let handler: Handler = () => undefined;
+let calls = 0;
+
+const server = createServer((req, res) => {
+  let raw = '';
+  req.on('data', chunk => (raw += chunk));
+  req.on('end', () => {
+    calls++;
+    handler(req, res, JSON.parse(raw || '{}'));
+  });
+});
+
+function reply(res: ServerResponse, status: number, payload: unknown, headers: Record<string, string> = {}) {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify(payload));
+}
+
+const USER = { data: { currentUser: { email: 'test@example.com', name: 'Test' } } };
+const PROJECT = { id: 'p1', name: 'Backend', isArchived: false, createdAt: '2025-09-01', updatedAt: '2025-09-01' };
+
+function api(endpoint: string, overrides: Partial<RizeApiOptions> = {}): RizeApiService {
+  return new RizeApiService('test-key', {
+    endpoint,
+    requestTimeoutMs: 200,
+    retry: { retries: 2, baseDelayMs: 10, maxDelayMs: 20 },
+    circuitBreaker: { failureThreshold: 3, resetTimeoutMs: 300 },
+    ...overrides
+  });
+}
+
+async function main() {
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const endpoint = `http://127.0.0.1:${(server.address() as AddressInfo).port}/graphql`;
+
+  const tests: Array<[string, () => Promise<void>]> = [
+    ['query ritentata dopo 502 transitori', async () => {
+      let failures = 2;
+      handler = (_req, res) => (failures-- > 0 ? reply(res, 502, { error: 'Bad Gateway' }) : reply(res, 200, USER));
+      const user = await api(endpoint).getCurrentUser();
+      assert.equal(user.email, 'test@example.com');
+      assert.equal(calls, 3);
+    }],
+
+    ['mutation mai ritentata', async () => {
+      handler = (_req, res) => reply(res, 502, { error: 'Bad Gateway' });
+      await assert.rejects(api(endpoint).createProject('Test'), /temporarily unavailable/);
+      assert.equal(calls, 1);
+    }],
+
+    ['mutation riuscita al primo tentativo', async () => {
+      handler = (_req, res) => reply(res, 200, { data: { createProject: { project: PROJECT } } });
+      const project = await api(endpoint).createProject('Backend');
+      assert.equal(project.id, 'p1');
+      assert.equal(calls, 1);
+    }],
+
+    ['socket bloccato -> timeout e retry', async () => {
+      handler = () => undefined; // Nessuna risposta
+      const started = Date.now();
+      await assert.rejects(api(endpoint, { retry: { retries: 1, baseDelayMs: 10, maxDelayMs: 10 } }).getCurrentUser(), /timed out after 200ms/);
+      assert.equal(calls, 2);
+      assert.ok(Date.now() - started < 1000);
+    }],
+
+    ['errore di autenticazione non ritentato', async () => {
+      handler = (_req, res) => reply(res, 401, { errors: [{ message: 'Invalid token' }] });
+      await assert.rejects(api(endpoint).getCurrentUser(), /Authentication Error/);
+      assert.equal(calls, 1);
+    }],
+
+    ['circuit breaker apre dopo fallimenti ripetuti e si richiude', async () => {
+      handler = (_req, res) => reply(res, 503, {});
+      const service = api(endpoint, { retry: { retries: 0, baseDelayMs: 0, maxDelayMs: 0 } });
+      for (let i = 0; i < 3; i++) {
+        await assert.rejects(service.getCurrentUser(), /temporarily unavailable/);
+      }
+      assert.equal(service.getCircuitState().state, 'open');
+
+      await assert.rejects(service.getCurrentUser(), /requests are paused/);
+      assert.equal(calls, 3); // Fail fast: nessuna nuova chiamata al server
+
+      await new Promise(resolve => setTimeout(resolve, 350));
+      handler = (_req, res) => reply(res, 200, USER);
+      await service.getCurrentUser();
+      assert.equal(service.getCircuitState().state, 'closed');
+      assert.equal(calls, 4);
+    }],
+
+    ['rate limit locale durante la prova half-open: stato ed errori invariati', async () => {
+      handler = (_req, res) => reply(res, 503, {});
+      const service = api(endpoint, {
+        retry: { retries: 0, baseDelayMs: 0, maxDelayMs: 0 },
+        rateLimiting: { enabled: true, maxRequests: 3, windowMs: 600, queueTimeoutMs: 0 }
+      });
+      for (let i = 0; i < 3; i++) {
+        await assert.rejects(service.getCurrentUser(), /temporarily unavailable/);
+      }
+
+      await new Promise(resolve => setTimeout(resolve, 350));
+      await assert.rejects(service.getCurrentUser(), /Client-side limit/);
+      assert.deepEqual(service.getCircuitState(), { state: 'half-open', failures: 3 });
+      // La prova non resta occupata: la richiesta successiva arriva di nuovo al rate limiter
+      await assert.rejects(service.getCurrentUser(), /Client-side limit/);
+      assert.equal(calls, 3);
+
+      await new Promise(resolve => setTimeout(resolve, 300));
+      handler = (_req, res) => reply(res, 200, USER);
+      await service.getCurrentUser();
+      assert.equal(service.getCircuitState().state, 'closed');
+      assert.equal(calls, 4);
+    }],
+
+    ['429 con Retry-After sospende le richieste', async () => {
+      handler = (_req, res) => reply(res, 429, {}, { 'Retry-After': '5' });
+      const service = api(endpoint, { retry: { retries: 0, baseDelayMs: 0, maxDelayMs: 0 } });
+      await assert.rejects(service.getCurrentUser(), /Retry in 5s/);
+      assert.ok(service.getRateLimitUsage().blockedForMs > 4000);
+    }]
+  ];
+
+  let failed = 0;
+  for (const [name, fn] of tests) {
+    calls = 0;
+    try {
+      await fn();
+      console.log(`✅ ${name}`);
+    } catch (error) {
+      failed++;
+      console.log(`❌ ${name}: ${(error as Error).message}`);
+    }
+  }
+
+  server.closeAllConnections();
+  server.close();
+  console.log(`\n${tests.length - failed}/${tests.length} test superati`);
+  process.exit(failed > 0 ? 1 : 0);
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,129 @@
+#!/usr/bin/env tsx
+
+/**
+ * Test unitari per il calendario lavorativo (giorni e orari lavorativi, festività da file ICS, medie per giorno lavorativo)
+ */
+
+import assert from 'node:assert/strict';
+import { computeConsistency, summarizePeriod } from './src/utils/analytics.js';
+import { formatProductivityMetrics } from './src/utils/formatting.js';
+import { DEFAULT_SCHEDULE, WorkSchedule, holidayOn, isWorkingDay, nextWorkingDay, parseClockTime, parseHolidayCalendar, previousWorkingDay, workingDaysIn } from './src/utils/schedule.js';
+import { RizeProductivityMetrics } from './src/types/rize.js';
+
+const ICS = [
+  'BEGIN:VCALENDAR',
+  'VERSION:2.0',
+  'BEGIN:VEVENT',
+  'DTSTART;VALUE=DATE:20250101',
+  'DTEND;VALUE=DATE:20250102',
+  'RRULE:FREQ=YEARLY',
+  'SUMMARY:Capodanno',
+  'END:VEVENT',
+  'BEGIN:VEVENT',
+  'DTSTART;VALUE=DATE:20250815',
+  'SUMMARY;LANGUAGE=it:Ferragosto',
+  'END:VEVENT',
+  'BEGIN:VEVENT',
+  'DTSTART;VALUE=DATE:20251224',
+  'DTEND;VALUE=DATE:20251227',
+  'SUMMARY:Chiusura natalizia\\, uffici',
+  '  chiusi',
+  'END:VEVENT',
+  'BEGIN:VEVENT',
+  'DTSTART;VALUE=DATE:20250602',
+  'STATUS:CANCELLED',
+  'SUMMARY:Festa annullata',
+  'END:VEVENT',
+  'END:VCALENDAR'
+].join('\r\n');
+
+const SCHEDULE: WorkSchedule = { ...DEFAULT_SCHEDULE, holidays: parseHolidayCalendar(ICS) };
+
+function day(date: string, focus: number): RizeProductivityMetrics {
+  return {
+    date,
+    totalFocusTime: focus,
+    productivityScore: 50,
+    focusSessionsCount: 0,
+    topCategory: { name: 'Work', timeSpent: focus },
+    breakTime: 0,
+    meetingTime: 0,
+    distractionTime: null,
+    contextSwitches: null,
+    categories: []
+  };
+}
+
+const tests: Array<[string, () => void]> = [
+  ['festività lette dal file ICS (DTEND esclusivo, righe ripiegate, eventi annullati)', () => {
+    assert.equal(SCHEDULE.holidays.length, 3);
+    assert.deepEqual(SCHEDULE.holidays[2], {
+      startDate: '2025-12-24', endDate: '2025-12-26', name: 'Chiusura natalizia, uffici chiusi', yearly: false, until: undefined
+    });
+    assert.equal(holidayOn('2025-08-15', SCHEDULE)?.name, 'Ferragosto');
+    assert.equal(holidayOn('2025-12-27', SCHEDULE), undefined);
+    assert.equal(holidayOn('2025-06-02', SCHEDULE), undefined);
+    assert.throws(() => parseHolidayCalendar('not a calendar'), /BEGIN:VCALENDAR/);
+  }],
+
+  ['festività annuali ripetute ogni anno, non prima della prima occorrenza', () => {
+    assert.equal(holidayOn('2027-01-01', SCHEDULE)?.name, 'Capodanno');
+    assert.equal(holidayOn('2024-01-01', SCHEDULE), undefined);
+    assert.equal(holidayOn('2026-08-15', SCHEDULE), undefined); // Ferragosto senza RRULE vale solo nel 2025
+  }],
+
+  ['giorni lavorativi: weekend e festività esclusi', () => {
+    assert.equal(isWorkingDay('2025-08-14', SCHEDULE), true);
+    assert.equal(isWorkingDay('2025-08-15', SCHEDULE), false); // venerdì festivo
+    assert.equal(isWorkingDay('2025-08-16', SCHEDULE), false); // sabato
+    assert.deepEqual(workingDaysIn({ startDate: '2025-08-11', endDate: '2025-08-17' }, SCHEDULE),
+      ['2025-08-11', '2025-08-12', '2025-08-13', '2025-08-14']);
+    assert.equal(previousWorkingDay('2025-08-18', SCHEDULE), '2025-08-14');
+    assert.equal(nextWorkingDay('2025-12-23', SCHEDULE), '2025-12-29');
+    assert.equal(nextWorkingDay('2025-08-16', { ...SCHEDULE, workingDays: [6] }), '2025-08-23');
+  }],
+
+  ['medie per giorno lavorativo e quota delle ore lavorative', () => {
+    const week = { startDate: '2025-08-11', endDate: '2025-08-17' };
+    const metrics = [day('2025-08-11', 240), day('2025-08-12', 240), day('2025-08-13', 120), day('2025-08-14', 0), day('2025-08-16', 60)];
+    const period = summarizePeriod(week, metrics, SCHEDULE);
+    assert.equal(period.totalFocusTime, 660);
+    assert.equal(period.workingDays, 4);
+    assert.equal(period.averageFocusPerWorkingDay, 150);
+    assert.equal(period.nonWorkingFocusTime, 60);
+    assert.equal(period.workingTimeFocusShare, 600 / (4 * 480));
+    // Consistency sui soli giorni lavorativi: 2 su 4 raggiungono 4 ore
+    assert.deepEqual(computeConsistency(week, metrics, 240, SCHEDULE), { share: 0.5, basis: 'working_days' });
+    // Periodo senza giorni lavorativi (sabato): conta ogni giorno e lo dichiara
+    assert.deepEqual(computeConsistency({ startDate: '2025-08-16', endDate: '2025-08-16' }, metrics, 60, SCHEDULE), { share: 1, basis: 'all_days' });
+  }],
+
+  ['report con giorni non lavorativi etichettati', () => {
+    const text = formatProductivityMetrics([day('2025-08-14', 120), day('2025-08-15', 30), day('2025-08-16', 60)], SCHEDULE);
+    assert.match(text, /Per Working Day: 2h 0m focus over 1 working days, 1h 30m on days off/);
+    assert.match(text, /2025-08-15 \(Ferragosto\)/);
+    assert.match(text, /2025-08-16 \(day off\)/);
+    assert.doesNotMatch(formatProductivityMetrics([day('2025-08-16', 60)]), /Working Day|day off/);
+  }],
+
+  ['orari lavorativi HH:MM', () => {
+    assert.equal(parseClockTime('09:30'), 570);
+    assert.equal(parseClockTime('24:00'), 1440);
+    assert.equal(parseClockTime('9:75'), undefined);
+    assert.equal(parseClockTime('25:00'), undefined);
+  }]
+];
+
+let failed = 0;
+for (const [name, fn] of tests) {
+  try {
+    fn();
+    console.log(`✅ ${name}`);
+  } catch (error) {
+    failed++;
+    console.log(`❌ ${name}: ${(error as Error).message}`);
+  }
+}
+
+console.log(`\n${tests.length - failed}/${tests.length} test superati`);
+process.exit(failed > 0 ? 1 : 0);
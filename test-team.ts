@@ -0,0 +1,87 @@
+#!/usr/bin/env tsx
+
+/**
+ * Test unitari per il report di team (buildTeamReport, describeDistribution) su dati fixture
+ */
+
+import assert from 'node:assert/strict';
+import { buildTeamReport, describeDistribution } from './src/utils/analytics.js';
+import { RizeProductivityMetrics } from './src/types/rize.js';
+
+const BOUNDS = { startDate: '2025-09-01', endDate: '2025-09-02' };
+
+function day(date: string, focus: number, meetings: number, breaks: number): RizeProductivityMetrics {
+  return {
+    date,
+    totalFocusTime: focus,
+    productivityScore: 50,
+    focusSessionsCount: 0,
+    topCategory: { name: 'Work', timeSpent: focus },
+    breakTime: breaks,
+    meetingTime: meetings,
+    distractionTime: null,
+    contextSwitches: null,
+    categories: []
+  };
+}
+
+const MEMBERS = [
+  { name: 'alice', metrics: [day('2025-09-01', 120, 30, 10), day('2025-09-02', 180, 0, 20)] },
+  { name: 'bob', metrics: [day('2025-09-01', 60, 90, 15), day('2025-09-02', 0, 60, 0)] },
+  { name: 'carol', metrics: [day('2025-09-01', 90, 0, 5)] }
+];
+
+const tests: Array<[string, () => void]> = [
+  ['distribuzione: media, mediana, estremi e deviazione standard', () => {
+    const stats = describeDistribution([1, 2, 3, 4]);
+    assert.deepEqual({ ...stats, standardDeviation: Number(stats.standardDeviation.toFixed(4)) },
+      { min: 1, max: 4, mean: 2.5, median: 2.5, standardDeviation: 1.118 });
+    assert.equal(describeDistribution([5, 1, 3]).median, 3);
+    assert.deepEqual(describeDistribution([]), { min: 0, max: 0, mean: 0, median: 0, standardDeviation: 0 });
+  }],
+
+  ['totali di team e confronto per membro', () => {
+    const report = buildTeamReport(BOUNDS, MEMBERS, [], false);
+    assert.deepEqual(report.totals, { focusTime: 450, meetingTime: 180, breakTime: 50 });
+    assert.equal(report.memberCount, 3);
+    assert.deepEqual(report.members!.map(member => member.name), ['alice', 'carol', 'bob']);
+
+    const alice = report.members![0];
+    assert.equal(alice.activeDays, 2);
+    assert.equal(alice.averageDailyFocus, 150);
+    assert.equal(alice.focusShare, 300 / 450);
+    assert.equal(alice.focusVsTeamAverage, 1); // 300 vs media 150
+
+    const bob = report.members![2];
+    assert.equal(bob.activeDays, 1);
+    assert.equal(bob.meetingTime, 150);
+  }],
+
+  ['privacy: solo aggregati, nessun dato per membro', () => {
+    const report = buildTeamReport(BOUNDS, MEMBERS, ['dave'], true);
+    assert.equal(report.members, undefined);
+    assert.equal(report.unavailableMembers, undefined);
+    assert.equal(report.unavailableCount, 1);
+    assert.equal(report.distribution.focusTime.median, 90);
+  }],
+
+  ['membri non disponibili elencati fuori dalla modalità privacy', () => {
+    const report = buildTeamReport(BOUNDS, MEMBERS.slice(0, 2), ['carol'], false);
+    assert.deepEqual(report.unavailableMembers, ['carol']);
+    assert.equal(report.memberCount, 2);
+  }]
+];
+
+let failed = 0;
+for (const [name, fn] of tests) {
+  try {
+    fn();
+    console.log(`✅ ${name}`);
+  } catch (error) {
+    failed++;
+    console.log(`❌ ${name}: ${(error as Error).message}`);
+  }
+}
+
+console.log(`\n${tests.length - failed}/${tests.length} test superati`);
+process.exit(failed > 0 ? 1 : 0);